@@ -0,0 +1,142 @@
+import path from "path";
+import fs from "fs";
+
+import { getModifiedTime, hashText } from "./utils";
+
+/**
+ * Setting this environment variable to "1" records the current diagnostics in
+ * the baseline instead of reporting them.
+ */
+export const UPDATE_BASELINE_VARIABLE = "MOSSOP_TYPESCRIPT_UPDATE_BASELINE";
+
+// Bump this when the way fingerprints are computed changes.
+const BASELINE_FORMAT = 1;
+
+/**
+ * Diagnostics in a file that are expected. Identical diagnostics are counted
+ * rather than repeated.
+ */
+export interface BaselineEntry {
+  code: number;
+  category: string;
+  fingerprint: string;
+  // The first line of the message, to make the baseline easier to review.
+  message: string;
+  count: number;
+}
+
+interface BaselineFile {
+  version: number;
+  // Keyed by the path relative to the baseline file.
+  files: Record<string, BaselineEntry[]>;
+}
+
+interface LoadedBaseline {
+  modified: number;
+  baseline: BaselineFile;
+}
+
+const baselineMap = new Map<string, LoadedBaseline>();
+// The baselines being updated and the files in each that have been recorded.
+const updateMap = new Map<string, Set<string>>();
+
+/**
+ * Computes a fingerprint for a diagnostic from its message and the code on the
+ * lines that it covers, so it survives code being added above or below it.
+ */
+export function fingerprint(code: number, message: string, lines: string[]): string {
+  let source = lines.map((line: string): string => line.trim().replace(/\s+/g, " ")).join("\n");
+  return hashText([String(BASELINE_FORMAT), String(code), message, source].join("\n")).substring(0, 16);
+}
+
+function emptyBaseline(): BaselineFile {
+  return {
+    version: BASELINE_FORMAT,
+    files: {},
+  };
+}
+
+function loadBaseline(baselineFile: string): BaselineFile {
+  let modified = getModifiedTime(baselineFile);
+  let loaded = baselineMap.get(baselineFile);
+  if (loaded && (loaded.modified == modified || updateMap.has(baselineFile))) {
+    return loaded.baseline;
+  }
+
+  let baseline: BaselineFile;
+  try {
+    baseline = JSON.parse(fs.readFileSync(baselineFile, { encoding: "utf8" }));
+    if (baseline.version != BASELINE_FORMAT) {
+      baseline = emptyBaseline();
+    }
+  } catch (e) {
+    baseline = emptyBaseline();
+  }
+
+  baselineMap.set(baselineFile, { modified, baseline });
+  return baseline;
+}
+
+function baselineKey(baselineFile: string, filename: string): string {
+  return path.relative(path.dirname(baselineFile), filename).split(path.sep).join("/");
+}
+
+/**
+ * Gets the diagnostics expected in a file.
+ */
+export function getBaselineEntries(baselineFile: string, filename: string): BaselineEntry[] {
+  return loadBaseline(baselineFile).files[baselineKey(baselineFile, filename)] || [];
+}
+
+function compareEntries(a: BaselineEntry, b: BaselineEntry): number {
+  return a.code - b.code || a.fingerprint.localeCompare(b.fingerprint);
+}
+
+function writeBaselines(): void {
+  for (let baselineFile of updateMap.keys()) {
+    let baseline = loadBaseline(baselineFile);
+    let files: Record<string, BaselineEntry[]> = {};
+    for (let key of Object.keys(baseline.files).sort()) {
+      if (baseline.files[key].length) {
+        files[key] = baseline.files[key].sort(compareEntries);
+      }
+    }
+
+    fs.writeFileSync(baselineFile, JSON.stringify({ version: BASELINE_FORMAT, files }, null, 2) + "\n");
+  }
+}
+
+/**
+ * Records the diagnostics found in a file, replacing what was in the baseline
+ * for it. When more than one rule records the same file the diagnostics that
+ * both found are only counted once. The baseline is written when the process
+ * exits.
+ */
+export function recordBaseline(baselineFile: string, filename: string, entries: BaselineEntry[]): void {
+  let baseline = loadBaseline(baselineFile);
+  let key = baselineKey(baselineFile, filename);
+
+  let recorded = updateMap.get(baselineFile);
+  if (!recorded) {
+    if (!updateMap.size) {
+      process.on("exit", writeBaselines);
+    }
+    recorded = new Set();
+    updateMap.set(baselineFile, recorded);
+  }
+
+  if (!recorded.has(key)) {
+    recorded.add(key);
+    baseline.files[key] = [];
+  }
+
+  let existing = baseline.files[key];
+  for (let entry of entries) {
+    let found = existing.find((item: BaselineEntry): boolean => item.fingerprint == entry.fingerprint);
+    if (!found) {
+      existing.push(entry);
+    } else if (found.count < entry.count) {
+      found.count = entry.count;
+    }
+  }
+}
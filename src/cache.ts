@@ -0,0 +1,86 @@
+import path from "path";
+import fs from "fs";
+import { CompilerOptions, Program } from "typescript";
+
+import { FileDiagnostic } from "./diagnostics";
+import { hashText } from "./utils";
+
+// Bump this when the format of the cache entries changes.
+const CACHE_FORMAT = 3;
+
+/**
+ * The default location of the persistent cache, relative to the current
+ * working directory.
+ */
+export const DEFAULT_CACHE_LOCATION = path.join("node_modules", ".cache", "eslint-plugin-mossop-typescript");
+
+interface CacheEntry {
+  key: string;
+  diagnostics: FileDiagnostic[];
+}
+
+// The parsed options include the config file's syntax tree which is both huge
+// and circular.
+function serializeOptions(options: CompilerOptions): string {
+  let keys = Object.keys(options).filter((key: string): boolean => key != "configFile").sort();
+  return JSON.stringify(keys.map((key: string): [string, unknown] => [key, options[key]]));
+}
+
+/**
+ * Builds the key for a file's cached diagnostics. This changes if the version
+ * of TypeScript, the compiler options, the list of files in the project or the
+ * content of the file or anything that it depends on changes. The
+ * dependencies must include the global scripts in the program.
+ */
+export function buildCacheKey(typescriptVersion: string, program: Program, filesHash: string, dependencies: readonly string[], getContentHash: (fileName: string) => string): string {
+  let parts = [
+    String(CACHE_FORMAT),
+    typescriptVersion,
+    serializeOptions(program.getCompilerOptions()),
+    filesHash,
+    ...dependencies.slice().sort().map((dependency: string): string => `${dependency}@${getContentHash(dependency)}`),
+  ];
+
+  return hashText(parts.join("\n"));
+}
+
+function entryPath(location: string, fileName: string): string {
+  return path.join(location, `${hashText(fileName)}.json`);
+}
+
+/**
+ * Reads a file's diagnostics from the cache if there is an entry with the
+ * right key.
+ */
+export function readCache(location: string, fileName: string, key: string): FileDiagnostic[] | undefined {
+  let entry: CacheEntry;
+  try {
+    entry = JSON.parse(fs.readFileSync(entryPath(location, fileName), { encoding: "utf8" }));
+  } catch (e) {
+    return undefined;
+  }
+
+  if (entry.key != key) {
+    return undefined;
+  }
+
+  return entry.diagnostics;
+}
+
+/**
+ * Writes a file's diagnostics to the cache. Failing to write is not an error,
+ * the diagnostics are just computed again next time.
+ */
+export function writeCache(location: string, fileName: string, key: string, diagnostics: FileDiagnostic[]): void {
+  let entry: CacheEntry = {
+    key,
+    diagnostics,
+  };
+
+  try {
+    fs.mkdirSync(location, { recursive: true });
+    fs.writeFileSync(entryPath(location, fileName), JSON.stringify(entry));
+  } catch (e) {
+    // Ignore failures.
+  }
+}
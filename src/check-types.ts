@@ -1,568 +1,631 @@
 import path from "path";
-import fs from "fs";
 import {
-  NewLineKind, LanguageService, LanguageServiceHost, Diagnostic,
-  IScriptSnapshot, TextChangeRange, DiagnosticWithLocation, CompilerOptions,
-  ResolvedProjectReference, ResolvedModule, ResolvedModuleFull, getDefaultLibFileName,
-  createLanguageService, Extension, flattenDiagnosticMessageText, DiagnosticCategory } from "typescript";
+  Diagnostic, DiagnosticCategory, TextChange } from "typescript";
 import { Rule } from "eslint";
 import { Node } from "estree";
 import globby from "globby";
+import minimatch from "minimatch";
 
-import { Config, decodeConfig, loadPackage } from "./utils";
+import {
+  BaselineEntry, fingerprint, getBaselineEntries, recordBaseline, UPDATE_BASELINE_VARIABLE } from "./baseline";
+import { DEFAULT_CACHE_LOCATION } from "./cache";
+import {
+  FileCodeFix, FileDiagnostic, flattenMessageChain, formatRelatedInformation, toFileDiagnostic } from "./diagnostics";
+import { defaultWorkerCount, Precheck } from "./precheck";
+import { buildSchema, DIAGNOSTIC_MESSAGE_IDS } from "./schema";
+import {
+  CONFIG_FILES, ESLintProject, findOwningProject, getCodeFixes, getDependencies, getDiagnosticsVersion, getFileDiagnostics,
+  evictProjects, getInferredProject, getProjectDiagnostics, loadProject } from "./project";
+import { findAbove } from "./utils";
+import { getScript, Script } from "./virtual";
 
 export interface Options {
   reportCategories: DiagnosticCategory[];
+  // Config files to use instead of the closest tsconfig.json.
+  projects?: string[];
+  // Compiler options for files not in any project, if they should be checked.
+  inferredCompilerOptions?: object;
+  // Where to persist diagnostics between runs, if anywhere.
+  cacheLocation?: string;
+  // How many workers to check each project's files in, if any.
+  workers?: number;
+  // Limits on the number of projects to keep loaded and on the size of the
+  // heap in megabytes.
+  maxProjects?: number;
+  maxMemory?: number;
+  // The TypeScript to use instead of the one that each project resolves.
+  typescriptLocation?: string;
+  // The diagnostic codes whose code fixes may be applied automatically.
+  autofixCodes?: number[];
+  // If given only these codes are reported, the excluded codes never are.
+  includeCodes?: number[];
+  excludeCodes?: number[];
+  // If given only files matching these globs are checked.
+  files?: string[];
+  // The messageIds for ranges of codes, the smallest ranges first.
+  messageIds?: CodeRange[];
+  // How many levels of message chains to include, all if not given.
+  messageChainDepth?: number;
+  // The file of expected diagnostics and whether to record them in it instead.
+  baseline?: string;
+  updateBaseline?: boolean;
+}
+
+interface CodeRange {
+  start: number;
+  end: number;
+  messageId: string;
+}
+
+export interface InferredProjectOptions {
+  compilerOptions?: object;
 }
 
 export interface PluginOptions {
   categories?: string[];
+  project?: string | string[];
+  inferredProject?: boolean | InferredProjectOptions;
+  cache?: boolean | string;
+  workers?: boolean | number;
+  maxProjects?: number;
+  maxMemory?: number;
+  typescript?: string;
+  autofix?: number[];
+  include?: number[];
+  exclude?: number[];
+  files?: string | string[];
+  // Maps codes, or ranges of codes such as "7000-7999", to messageIds.
+  messageIds?: Record<string, string>;
+  messageChainDepth?: number;
+  baseline?: string;
 }
 
-const diagnosticsMap = new Map<string, Diagnostic[] | undefined>();
-const projectMap = new Map<string, ESLintProject | undefined>();
-
-const TS_EXTENSIONS = [
-  Extension.Ts,
-  Extension.Tsx,
-  Extension.Dts,
-];
-
-const JS_EXTENSIONS = [
-  Extension.Js,
-  Extension.Jsx,
-  Extension.Json,
-];
-
-function findIncludedFiles(config: Config, root: string): string[] {
-  let allowedExtensions: Extension[] = [
-    Extension.Ts,
-    Extension.Tsx,
-    Extension.Dts,
-  ];
-
-  if (config.compilerOptions.allowJs) {
-    allowedExtensions.push(Extension.Js);
-    allowedExtensions.push(Extension.Jsx);
-  }
-
-  let extensionGlobs = allowedExtensions.map((ext: Extension) => "*" + ext);
-
-  let files: string[];
-  if (config.include) {
-    let include: string[] = [];
-    for (let glob of config.include) {
-      if (glob.endsWith("*") || glob.endsWith(".*")) {
-        if (glob.endsWith(".*")) {
-          glob = glob.substr(0, glob.length - 2);
-        } else {
-          glob = glob.substr(0, glob.length - 1);
-        }
+// The key for the shared settings in the ESLint configuration.
+const SETTINGS_KEY = "mossop-typescript";
+
+interface FileDiagnostics {
+  // Changes whenever the file or anything that it depends on changes.
+  version: string;
+  // The files that the file depended on when the diagnostics were computed.
+  dependencies: readonly string[];
+  diagnostics: FileDiagnostic[];
+}
+
+const diagnosticsMap = new Map<string, FileDiagnostics>();
+// For each version of a project, the file that each rule reported the project's
+// problems on. This is kept apart from the project so that a project that was
+// disposed and loaded again doesn't report them again.
+const configReportedMap = new Map<string, Map<string, string>>();
+const projectGlobMap = new Map<string, string[]>();
+
+// Virtual scripts are added to the project that the file they come from is in.
+function addVirtualScript(project: ESLintProject, script: Script): ESLintProject {
+  project.host.setVirtualFile(script.fileName, script.text);
+  return project;
+}
+
+function getProject(script: Script, options: Options): ESLintProject | undefined {
+  let filename = script.fileName;
 
-        for (let extension of extensionGlobs) {
-          include.push(glob + extension);
+  if (options.projects) {
+    // The first configured project that includes the file wins.
+    for (let configFile of options.projects) {
+      let project = findOwningProject(
+        loadProject(configFile, options.typescriptLocation), filename, new Set(), options.typescriptLocation
+      );
+      if (project) {
+        return project;
+      }
+    }
+
+    if (script.virtual) {
+      for (let configFile of options.projects) {
+        if (!path.relative(path.dirname(configFile), filename).startsWith("..")) {
+          return addVirtualScript(loadProject(configFile, options.typescriptLocation), script);
         }
-      } else {
-        include.push(glob);
       }
     }
 
-    files = globby.sync(include, {
-      ignore: config.exclude,
-      cwd: root,
-      onlyFiles: true,
-      unique: true,
-      expandDirectories: extensionGlobs,
-    });
-  } else if (!config.files) {
-    files = globby.sync(extensionGlobs.map((glob: string) => "**/" + glob), {
-      ignore: config.exclude,
-      cwd: root,
-      onlyFiles: true,
-      unique: true,
-    });
-  } else {
-    files = [];
+    return undefined;
   }
 
-  if (config.files) {
-    for (let file of config.files) {
-      if (!files.includes(file)) {
-        files.push(file);
-      }
-    }
+  let configFile = findAbove(path.dirname(filename), CONFIG_FILES);
+  if (!configFile) {
+    // Not in a typescript project.
+    return undefined;
   }
 
-  return files;
+  let project = loadProject(configFile, options.typescriptLocation);
+  let owner = findOwningProject(project, filename, new Set(), options.typescriptLocation);
+  if (!owner && script.virtual) {
+    return addVirtualScript(project, script);
+  }
+  return owner || project;
 }
 
-function isFile(name?: string): boolean {
-  if (!name) {
-    return false;
+function categoryName(category: DiagnosticCategory): string {
+  switch (category) {
+    case DiagnosticCategory.Warning:
+      return "warning";
+    case DiagnosticCategory.Error:
+      return "error";
+    case DiagnosticCategory.Suggestion:
+      return "suggestion";
+    case DiagnosticCategory.Message:
+      return "message";
   }
+}
 
-  try {
-    return fs.statSync(name).isFile();
-  } catch (e) {
+function isCodeReported(code: number, options: Options): boolean {
+  if (options.includeCodes && !options.includeCodes.includes(code)) {
     return false;
   }
+  return !options.excludeCodes || !options.excludeCodes.includes(code);
 }
 
-function findAny(target: string, extensions: Extension[], isGlobal: boolean): ResolvedModuleFull | undefined {
-  for (let extension of extensions) {
-    if (isFile(target + extension)) {
-      return {
-        resolvedFileName: target + extension,
-        isExternalLibraryImport: isGlobal,
-        extension,
-      };
+function messageIdFor(code: number, options: Options): string {
+  for (let range of options.messageIds || []) {
+    if (code >= range.start && code <= range.end) {
+      return range.messageId;
     }
   }
-
-  return undefined;
+  return "tserror";
 }
 
-function getExtensionFromFileName(name: string): Extension | undefined {
-  for (let key of Object.keys(Extension)) {
-    if (!name.startsWith(".")) {
-      continue;
-    }
-
-    if (name.endsWith(key)) {
-      return Extension[Extension[key]];
-    }
+// The globs are matched against the path relative to the current working
+// directory.
+function isFileIncluded(filename: string, options: Options): boolean {
+  if (!options.files) {
+    return true;
   }
 
-  return undefined;
+  let relative = path.relative(process.cwd(), filename).split(path.sep).join("/");
+  return options.files.some((pattern: string): boolean => minimatch(relative, pattern, { dot: true }));
 }
 
-// Special lookup for a types package. Only find definitions or a package.json
-// with typings.
-function findTypes(target: string): ResolvedModuleFull | undefined {
-  if (isFile(target + ".d.ts")) {
-    return {
-      resolvedFileName: target + ".d.ts",
-      isExternalLibraryImport: true,
-      extension: Extension.Dts,
-    };
-  }
-
-  let pkg = loadPackage(target);
-  if (pkg && pkg.types && isFile(pkg.types)) {
-    return {
-      resolvedFileName: pkg.types,
-      isExternalLibraryImport: true,
-      extension: getExtensionFromFileName(pkg.types) || Extension.Dts,
-    };
-  }
-
-  if (pkg && pkg.typings && isFile(pkg.typings)) {
-    return {
-      resolvedFileName: pkg.typings,
-      isExternalLibraryImport: true,
-      extension: getExtensionFromFileName(pkg.typings) || Extension.Dts,
-    };
-  }
-
-  if (isFile(path.join(target, "index.d.ts"))) {
-    return {
-      resolvedFileName: path.join(target, "index.d.ts"),
-      isExternalLibraryImport: true,
-      extension: Extension.Dts,
-    };
-  }
-
-  return undefined;
+// The related locations, such as where an expected type was declared, go on
+// the lines after the message.
+function formatRelated(diagnostic: FileDiagnostic, options: Options): string {
+  return (diagnostic.relatedInformation || []).map((related: FileDiagnostic): string => {
+    return "\n" + formatRelatedInformation(related, options.messageChainDepth);
+  }).join("");
 }
 
-function findModule(directory: string, name: string, typeRoots?: string[]): ResolvedModuleFull | undefined {
-  let target = path.join(directory, name);
-  let isGlobal = !!typeRoots;
+function applyCodeFix(codeFix: FileCodeFix): (fixer: Rule.RuleFixer) => Rule.Fix[] {
+  return (fixer: Rule.RuleFixer): Rule.Fix[] => {
+    return codeFix.changes.map((change: TextChange): Rule.Fix => {
+      return fixer.replaceTextRange([change.span.start, change.span.start + change.span.length], change.newText);
+    });
+  };
+}
 
-  // Look for types first.
-  let found = findAny(target, TS_EXTENSIONS, isGlobal);
-  if (found) {
-    return found;
-  }
+// Every code fix is offered as a suggestion. Only diagnostics with codes that
+// are allowed to be autofixed and that have a single fix are fixed by --fix.
+function reportDiagnostic(context: Rule.RuleContext, node: Node, diagnostic: FileDiagnostic, options: Options): void {
+  let category = categoryName(diagnostic.category);
 
-  let pkg = loadPackage(target);
-  if (pkg && pkg.types && isFile(pkg.types)) {
-    return {
-      resolvedFileName: pkg.types,
-      isExternalLibraryImport: isGlobal,
-      extension: getExtensionFromFileName(pkg.types) || Extension.Dts,
-    };
-  }
+  let data = {
+    category,
+    code: String(diagnostic.code),
+    text: flattenMessageChain(diagnostic.messageText, options.messageChainDepth),
+    related: formatRelated(diagnostic, options),
+  };
 
-  if (pkg && pkg.typings && isFile(pkg.typings)) {
+  let codeFixes = diagnostic.fixes || [];
+  let suggest = codeFixes.map((codeFix: FileCodeFix): Rule.SuggestionReportDescriptor => {
     return {
-      resolvedFileName: pkg.typings,
-      isExternalLibraryImport: isGlobal,
-      extension: getExtensionFromFileName(pkg.typings) || Extension.Dts,
+      desc: codeFix.description,
+      fix: applyCodeFix(codeFix),
     };
-  }
+  });
 
-  // Typing packages?
-  if (typeRoots) {
-    for (let dir of typeRoots) {
-      let typesPackage = path.join(dir, name);
-      let found = findTypes(typesPackage);
-      if (found) {
-        return found;
-      }
-    }
+  let fix: ((fixer: Rule.RuleFixer) => Rule.Fix[]) | undefined = undefined;
+  if (codeFixes.length == 1 && options.autofixCodes && options.autofixCodes.includes(diagnostic.code)) {
+    fix = applyCodeFix(codeFixes[0]);
   }
 
-  let index = path.join(target, "index");
-  found = findAny(index, TS_EXTENSIONS, isGlobal);
-  if (found) {
-    return found;
-  }
-
-  // No types. Try looking for js modules then.
-  found = findAny(target, JS_EXTENSIONS, isGlobal);
-  if (found) {
-    return found;
-  }
+  if (diagnostic.startLocation && diagnostic.endLocation) {
+    let start = diagnostic.startLocation;
+    let end = diagnostic.endLocation;
 
-  if (pkg && pkg.index && isFile(pkg.index)) {
-    return {
-      resolvedFileName: pkg.index,
-      isExternalLibraryImport: isGlobal,
-      extension: getExtensionFromFileName(pkg.index) || Extension.Js,
-    };
+    context.report({
+      messageId: messageIdFor(diagnostic.code, options),
+      loc: {
+        start: {
+          line: start.line + 1,
+          column: start.character,
+        },
+        end: {
+          line: end.line + 1,
+          column: end.character,
+        }
+      },
+      data,
+      suggest,
+      fix,
+    });
+  } else {
+    context.report({
+      node,
+      messageId: messageIdFor(diagnostic.code, options),
+      data,
+    });
   }
-
-  return findAny(index, JS_EXTENSIONS, isGlobal);
 }
 
-class ScriptSnapshot implements IScriptSnapshot {
-  private script: null | string;
-  private host: ESLintServiceHost;
-  private filename: string;
+// Problems with the project's tsconfig.json, its compiler options and those
+// found by the global checks are reported by each rule on the first file that
+// it lints in the project, with their location or the config file if they have
+// none. They are reported again whenever that file is linted again, as ESLint
+// only keeps the problems from the last time, such as after applying fixes.
+// If the config file itself is being linted then they are reported at their
+// real location.
+function reportConfigDiagnostics(context: Rule.RuleContext, node: Node, project: ESLintProject, options: Options): void {
+  let filename = context.getFilename();
+  let isConfigFile = project.configDiagnostics.some((diagnostic: Diagnostic): boolean => {
+    return !!diagnostic.file && diagnostic.file.fileName == filename;
+  });
+
+  if (!isConfigFile) {
+    let reported = configReportedMap.get(project.version);
+    if (!reported) {
+      reported = new Map();
+      configReportedMap.set(project.version, reported);
+    }
 
-  public constructor(host: ESLintServiceHost, filename: string) {
-    this.script = null;
-    this.host = host;
-    this.filename = filename;
+    let reportedOn = reported.get(context.id);
+    if (reportedOn !== undefined && reportedOn != filename) {
+      return;
+    }
+    reported.set(context.id, filename);
   }
 
-  private getContent(): string {
-    if (this.script) {
-      return this.script;
+  for (let diagnostic of getProjectDiagnostics(project)) {
+    if (!options.reportCategories.includes(diagnostic.category) || !isCodeReported(diagnostic.code, options)) {
+      continue;
     }
 
-    this.script = fs.readFileSync(this.filename, { encoding: "utf8" });
-    return this.script;
-  }
+    let data = {
+      location: diagnostic.file ? diagnostic.file.fileName : project.configFile,
+      category: categoryName(diagnostic.category),
+      code: String(diagnostic.code),
+      text: flattenMessageChain(diagnostic.messageText, options.messageChainDepth),
+      related: formatRelated(toFileDiagnostic(diagnostic), options),
+    };
 
-  /** Gets a portion of the script snapshot specified by [start, end). */
-  public getText(start: number, end: number): string {
-    return this.getContent().substr(start, end - start);
-  }
+    if (!diagnostic.file || diagnostic.start === undefined) {
+      context.report({
+        node,
+        messageId: "tsconfig",
+        data,
+      });
+      continue;
+    }
 
-  /** Gets the length of this script snapshot. */
-  public getLength(): number {
-    return this.getContent().length;
+    let start = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    data.location += `(${start.line + 1},${start.character + 1})`;
+
+    if (diagnostic.file.fileName == filename) {
+      let end = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start + (diagnostic.length || 0));
+
+      context.report({
+        messageId: "tsconfig",
+        loc: {
+          start: {
+            line: start.line + 1,
+            column: start.character,
+          },
+          end: {
+            line: end.line + 1,
+            column: end.character,
+          }
+        },
+        data,
+      });
+    } else {
+      context.report({
+        node,
+        messageId: "tsconfig",
+        data,
+      });
+    }
   }
+}
 
-  /**
-   * Gets the TextChangeRange that describe how the text changed between this text and
-   * an older version.  This information is used by the incremental parser to determine
-   * what sections of the script need to be re-parsed.  'undefined' can be returned if the
-   * change range cannot be determined.  However, in that case, incremental parsing will
-   * not happen and the entire document will be re - parsed.
-   */
-  public getChangeRange(): TextChangeRange | undefined {
+// A worker's result can only be used if the worker saw the same content for
+// the file and everything that it depends on as this thread does.
+function getPrecheckedDiagnostics(project: ESLintProject, precheck: Precheck, filename: string): FileDiagnostic[] | undefined {
+  let result = precheck.getResult(filename);
+  if (!result || !result.diagnostics) {
     return undefined;
   }
 
-  /** Releases all resources held by this script snapshot */
-  public dispose(): void {
-    this.script = null;
-    this.host.snapshots.delete(this.filename);
+  for (let [dependency, hash] of result.dependencies) {
+    if (project.host.getContentHash(dependency) != hash) {
+      return undefined;
+    }
   }
-}
 
-function* parents(directory: string): Generator<string> {
-  let parent = path.dirname(directory);
-  while (parent != directory) {
-    yield directory;
-    directory = parent;
-    parent = path.dirname(directory);
-  }
-  yield directory;
+  return result.diagnostics;
 }
 
-interface ESLintProject {
-  host: ESLintServiceHost;
-  language: LanguageService;
+// Only the files that the rule may be asked to check are worth checking ahead.
+// Declaration files are not linted and virtual files are only in the project
+// while their block is being linted.
+function getPrecheckFiles(project: ESLintProject, options: Options): string[] {
+  return project.host.getIncludedFileNames().filter((file: string): boolean => {
+    return !/\.d\.[cm]?ts$/.test(file) && isFileIncluded(file, options);
+  });
 }
 
-class ESLintServiceHost implements LanguageServiceHost {
-  private config: Config;
-  public snapshots: Map<string, ScriptSnapshot>;
-  private modulePaths: string[];
-  private moduleCache: Map<string, ResolvedModuleFull | undefined>;
-  private files: string[];
-
-  public constructor(projectRoot: string, config: Config) {
-    this.config = config;
-    this.snapshots = new Map();
-    this.moduleCache = new Map();
-    this.files = findIncludedFiles(config, projectRoot);
-
-    // This gives us the lookup path for this plugin. Need to strip off the
-    // parent directories of this file to get the system lookup directories.
-    let paths: string[] = require.resolve.paths(__filename) || [];
-    // This gives us the global paths.
-    let globalPaths = paths.slice(Array.from(parents(path.dirname(__filename))).length);
-
-    // Now we add on the parents of the project.
-    let projectPaths: string[] = [];
-    for (let directory of parents(projectRoot)) {
-      projectPaths.push(path.join(directory, "node_modules"));
-    }
-
-    this.modulePaths = projectPaths.concat(globalPaths);
+function getDiagnostics(project: ESLintProject, filename: string, options: Options): FileDiagnostic[] {
+  // If nothing that the file depended on last time has changed then neither
+  // have its dependencies. This avoids building the program, which matters
+  // for projects that were disposed since.
+  let cached = diagnosticsMap.get(filename);
+  if (cached && cached.version == getDiagnosticsVersion(project, cached.dependencies)) {
+    return cached.diagnostics;
   }
 
-  public getCompilationSettings(): CompilerOptions {
-    return this.config.compilerOptions;
+  if (options.workers && !project.inferred && !project.precheck) {
+    project.precheck = new Precheck(
+      project.configFile, getPrecheckFiles(project, options), options.workers, options.cacheLocation,
+      options.typescriptLocation
+    );
   }
 
-  public getNewLine(): string {
-    if (this.config.compilerOptions.newLine == NewLineKind.CarriageReturnLineFeed) {
-      return "\r\n";
+  if (project.precheck) {
+    let diagnostics = getPrecheckedDiagnostics(project, project.precheck, filename);
+    if (diagnostics) {
+      return diagnostics;
     }
-    return "\n";
   }
 
-  public log(s: string): void {
-    console.log(s);
-  }
+  let dependencies = getDependencies(project, filename);
+  cached = {
+    version: getDiagnosticsVersion(project, dependencies),
+    dependencies,
+    diagnostics: getFileDiagnostics(project, filename, dependencies, options.cacheLocation),
+  };
 
-  public trace(s: string): void {
-    console.trace(s);
-  }
+  diagnosticsMap.set(filename, cached);
+  return cached.diagnostics;
+}
 
-  public error(s: string): void {
-    console.error(s);
+/**
+ * Finds the project that includes the file being linted, if any.
+ */
+export function findLintedProject(context: Rule.RuleContext, script: Script, options: Options): ESLintProject | undefined {
+  if (!isFileIncluded(context.getFilename(), options)) {
+    return undefined;
   }
 
-  public getScriptFileNames(): string[] {
-    return this.files;
+  let filename = script.fileName;
+  let project = getProject(script, options);
+  if (options.inferredCompilerOptions && (!project || !project.host.getScriptFileNames().includes(filename))) {
+    project = getInferredProject(script, options.inferredCompilerOptions, options.typescriptLocation);
   }
 
-  public getScriptVersion(): string {
-    return "1";
+  if (!project || !project.host.getScriptFileNames().includes(filename)) {
+    return undefined;
   }
+  project.host.setScriptContent(filename, script.text);
+  return project;
+}
 
-  public getScriptSnapshot(fileName: string): IScriptSnapshot | undefined {
-    if (!this.snapshots.has(fileName)) {
-      this.snapshots.set(fileName, new ScriptSnapshot(this, fileName));
-    }
-    return this.snapshots.get(fileName);
-  }
+function fingerprintDiagnostic(context: Rule.RuleContext, diagnostic: FileDiagnostic): string {
+  let lines = context.getSourceCode().lines;
+  let covered = diagnostic.startLocation && diagnostic.endLocation ?
+    lines.slice(diagnostic.startLocation.line, diagnostic.endLocation.line + 1) :
+    [];
+  return fingerprint(diagnostic.code, flattenMessageChain(diagnostic.messageText, 0), covered);
+}
 
-  public getCurrentDirectory(): string {
-    return process.cwd();
-  }
+// Diagnostics in the baseline are not reported, those that are in the baseline
+// but no longer occur are so that the baseline can be updated. While updating
+// the baseline nothing is reported.
+function applyBaseline(context: Rule.RuleContext, node: Node, diagnostics: FileDiagnostic[], baselineFile: string, options: Options): FileDiagnostic[] {
+  let filename = context.getFilename();
+  let prints = diagnostics.map((diagnostic: FileDiagnostic): string => fingerprintDiagnostic(context, diagnostic));
+
+  if (options.updateBaseline) {
+    let entries: BaselineEntry[] = [];
+    diagnostics.forEach((diagnostic: FileDiagnostic, index: number): void => {
+      let entry = entries.find((item: BaselineEntry): boolean => item.fingerprint == prints[index]);
+      if (entry) {
+        entry.count++;
+      } else {
+        entries.push({
+          code: diagnostic.code,
+          category: categoryName(diagnostic.category),
+          fingerprint: prints[index],
+          message: flattenMessageChain(diagnostic.messageText, 0),
+          count: 1,
+        });
+      }
+    });
 
-  public getDefaultLibFileName(options: CompilerOptions): string {
-    let name = getDefaultLibFileName(options);
-    let module = require.resolve("typescript");
-    return path.join(path.dirname(module), name);
+    recordBaseline(baselineFile, filename, entries);
+    return [];
   }
 
-  private moduleLookup(directory: string, name: string, options: CompilerOptions, globals: string[]): ResolvedModuleFull | undefined {
-    if (name.startsWith(".")) {
-      // Simple relative case.
-      let target = path.resolve(directory, name);
+  // Only the entries that this rule would report are expected.
+  let expected = getBaselineEntries(baselineFile, filename).filter((entry: BaselineEntry): boolean => {
+    return options.reportCategories.some((category: DiagnosticCategory): boolean => {
+      return categoryName(category) == entry.category;
+    }) && isCodeReported(entry.code, options);
+  });
 
-      if (this.moduleCache.has(target)) {
-        return this.moduleCache.get(target);
-      }
-
-      let result = findModule(path.dirname(target), path.basename(target));
-      this.moduleCache.set(target, result);
-      return result;
-    }
+  let remaining = new Map<string, number>();
+  for (let entry of expected) {
+    remaining.set(entry.fingerprint, entry.count);
+  }
 
-    if (this.moduleCache.has(name)) {
-      return this.moduleCache.get(name);
+  let unexpected = diagnostics.filter((_diagnostic: FileDiagnostic, index: number): boolean => {
+    let allowed = remaining.get(prints[index]) || 0;
+    if (allowed > 0) {
+      remaining.set(prints[index], allowed - 1);
+      return false;
     }
-
-    let checkTypesPackages = !options.types || options.types.includes(name);
-
-    // Now look through the global directories.
-    for (let global of globals) {
-      let typePackages: string[] = [];
-      if (checkTypesPackages) {
-        typePackages = options.typeRoots || [path.join(global, "@types")];
-      }
-
-      let found = findModule(global, name, typePackages);
-      if (found) {
-        this.moduleCache.set(name, found);
-        return found;
-      }
+    return true;
+  });
+
+  for (let entry of expected) {
+    let missing = remaining.get(entry.fingerprint) || 0;
+    if (missing > 0) {
+      context.report({
+        node,
+        messageId: "baseline",
+        data: {
+          count: String(missing),
+          code: String(entry.code),
+          category: entry.category,
+          text: entry.message,
+        },
+      });
     }
-
-    this.moduleCache.set(name, undefined);
-    return undefined;
   }
 
-  public resolveModuleNames(moduleNames: string[], containingFile: string, _reusedNames: string[] | undefined, _redirectedReference: ResolvedProjectReference | undefined, options: CompilerOptions): (ResolvedModule | undefined)[] {
-    let directory = path.dirname(containingFile);
-    return moduleNames.map((name: string) => {
-      return this.moduleLookup(directory, name, options, this.modulePaths);
-    });
-  }
+  return unexpected;
 }
 
-function findAbove(directory: string, filename: string): string | null {
-  for (let current of parents(directory)) {
-    if (isFile(path.join(current, filename))) {
-      return path.join(current, filename);
-    }
+// The virtual file doesn't exist so related locations in it are given with the
+// name that ESLint knows the script by instead.
+function renameVirtualFile(diagnostic: FileDiagnostic, virtualFile: string, filename: string): FileDiagnostic {
+  if (!diagnostic.relatedInformation) {
+    return diagnostic;
   }
 
-  return null;
+  return {
+    ...diagnostic,
+    relatedInformation: diagnostic.relatedInformation.map((related: FileDiagnostic): FileDiagnostic => {
+      return related.fileName == virtualFile ? { ...related, fileName: filename } : related;
+    }),
+  };
 }
 
-function getProject(context: Rule.RuleContext, node: Node): ESLintProject | undefined {
-  let filename = context.getFilename();
-
-  let configFile = findAbove(path.dirname(filename), "tsconfig.json");
-  if (!configFile) {
-    // Not in a typescript project.
-    return undefined;
+function checkTypes(context: Rule.RuleContext, node: Node, options: Options): void {
+  if (!isFileIncluded(context.getFilename(), options)) {
+    return;
   }
 
-  if (projectMap.has(configFile)) {
-    return projectMap.get(configFile);
-  }
+  let script = getScript(context.getFilename(), context.getSourceCode().text);
+  let filename = script.fileName;
+  let project = getProject(script, options);
 
-  let config: Config;
-  try {
-    config = decodeConfig(configFile);
-  } catch (error) {
+  if (options.inferredCompilerOptions &&
+      (!project || !project.host.getScriptFileNames().includes(filename))) {
+    // The problems with the closest project are still reported.
+    if (project) {
+      reportConfigDiagnostics(context, node, project, options);
+    }
+    project = getInferredProject(script, options.inferredCompilerOptions, options.typescriptLocation);
+  } else if (!project && options.projects) {
     context.report({
-      message: "Could not parse tsconfig.json: {{ error }}",
       node,
+      messageId: "noproject",
       data: {
-        error,
-      }
+        projects: options.projects.length ? options.projects.join(", ") : "no config files were found",
+      },
     });
-    return undefined;
+    return;
   }
 
-  let host = new ESLintServiceHost(path.dirname(configFile), config);
-  let language = createLanguageService(host);
-
-  let project: ESLintProject = {
-    host,
-    language,
-  };
+  if (!project) {
+    return;
+  }
 
-  projectMap.set(configFile, project);
-  return project;
-}
+  let included = project.host.getScriptFileNames().includes(filename);
+  let diagnostics: FileDiagnostic[] = [];
+  if (included) {
+    evictProjects(project, options.maxProjects, options.maxMemory);
+    project.host.setScriptContent(filename, script.text);
 
-function isDiagnosticWithLocation(diagnostic: Diagnostic): diagnostic is DiagnosticWithLocation {
-  if (diagnostic.file && diagnostic.start && diagnostic.length) {
-    return true;
+    // The problems with the project need the program, the file's diagnostics
+    // may not if they are cached.
+    diagnostics = getDiagnostics(project, filename, options).filter((diagnostic: FileDiagnostic): boolean => {
+      return options.reportCategories.includes(diagnostic.category) && isCodeReported(diagnostic.code, options);
+    });
   }
-  return false;
-}
 
-function reportDiagnostic(context: Rule.RuleContext, node: Node, diagnostic: Diagnostic): void {
-  let category = "";
-  switch (diagnostic.category) {
-    case DiagnosticCategory.Warning: {
-      category = "warning";
-      break;
-    }
-    case DiagnosticCategory.Error: {
-      category = "error";
-      break;
-    }
-    case DiagnosticCategory.Suggestion: {
-      category = "suggestion";
-      break;
-    }
-    case DiagnosticCategory.Message: {
-      category = "message";
-      break;
-    }
-  }
+  reportConfigDiagnostics(context, node, project, options);
 
-  let data = {
-    category,
-    code: String(diagnostic.code),
-    text: flattenDiagnosticMessageText(diagnostic.messageText, "\n", 2),
-  };
+  if (!included) {
+    // Not part of a TypeScript project.
+    return;
+  }
 
-  if (isDiagnosticWithLocation(diagnostic)) {
-    let start = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
-    let end = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start + diagnostic.length);
+  if (options.baseline) {
+    diagnostics = applyBaseline(context, node, diagnostics, options.baseline, options);
+  }
 
-    context.report({
-      messageId: "tserror",
-      loc: {
-        start: {
-          line: start.line + 1,
-          column: start.character,
-        },
-        end: {
-          line: end.line + 1,
-          column: end.character,
-        }
-      },
-      data,
-    });
-  } else {
-    context.report({
-      node,
-      messageId: "tserror",
-      data,
+  if (script.virtual) {
+    // Virtual scripts end with code that is not in the file being linted.
+    let length = context.getSourceCode().text.length;
+    diagnostics = diagnostics.filter((diagnostic: FileDiagnostic): boolean => {
+      return diagnostic.start === undefined || diagnostic.start < length;
     });
   }
-}
 
-function checkTypes(context: Rule.RuleContext, node: Node, options: Options): void {
-  if (!diagnosticsMap.has(context.getFilename())) {
-    let project = getProject(context, node);
-    if (!project) {
-      // No TypeScript project found.
-      diagnosticsMap.set(context.getFilename(), undefined);
-      return;
+  for (let diag of diagnostics) {
+    // Finding code fixes is slow so it is only done for what is reported, and
+    // only once for cached diagnostics.
+    if (!diag.fixes) {
+      diag.fixes = getCodeFixes(project, filename, diag);
     }
 
-    if (!project.host.getScriptFileNames().includes(context.getFilename())) {
-      // Not part of the TypeScript project.
-      diagnosticsMap.set(context.getFilename(), undefined);
-      return;
+    if (script.virtual) {
+      diag = renameVirtualFile(diag, filename, context.getFilename());
     }
+    reportDiagnostic(context, node, diag, options);
+  }
+}
 
-    let diags = project.language.getSemanticDiagnostics(context.getFilename())
-      .concat(
-        project.language.getSyntacticDiagnostics(context.getFilename()),
-        project.language.getSuggestionDiagnostics(context.getFilename())
-      );
+// Expands the configured project paths and globs into a list of config files.
+function findProjects(patterns: string | string[]): string[] {
+  if (!Array.isArray(patterns)) {
+    patterns = [patterns];
+  }
 
-    diagnosticsMap.set(context.getFilename(), diags);
+  let key = JSON.stringify(patterns);
+  let projects = projectGlobMap.get(key);
+  if (projects) {
+    return projects;
   }
 
-  let diagnostics = diagnosticsMap.get(context.getFilename());
-  if (diagnostics) {
-    for (let diag of diagnostics) {
-      if (options.reportCategories.includes(diag.category)) {
-        reportDiagnostic(context, node, diag);
+  // Keep the configured order so that earlier projects take precedence.
+  projects = [];
+  for (let pattern of patterns) {
+    let files = globby.sync(pattern, {
+      cwd: process.cwd(),
+      absolute: true,
+      onlyFiles: true,
+    });
+
+    for (let file of files.sort()) {
+      file = path.normalize(file);
+      if (!projects.includes(file)) {
+        projects.push(file);
       }
     }
   }
+
+  projectGlobMap.set(key, projects);
+  return projects;
+}
+
+function parseMessageIds(messageIds: Record<string, string>): CodeRange[] {
+  let ranges = Object.keys(messageIds).map((codes: string): CodeRange => {
+    let [start, end] = codes.split("-").map(Number);
+    return {
+      start,
+      end: end === undefined ? start : end,
+      messageId: messageIds[codes],
+    };
+  });
+
+  // A single code overrides a range that includes it.
+  return ranges.sort((a: CodeRange, b: CodeRange): number => (a.end - a.start) - (b.end - b.start));
 }
 
 function optionsFromPlugin(pluginOptions?: PluginOptions): Options {
@@ -591,26 +654,109 @@ function optionsFromPlugin(pluginOptions?: PluginOptions): Options {
         options.reportCategories.push(DiagnosticCategory.Suggestion);
       }
     }
+
+    if (pluginOptions.project) {
+      options.projects = findProjects(pluginOptions.project);
+    }
+
+    if (pluginOptions.inferredProject) {
+      options.inferredCompilerOptions = {};
+      if (typeof pluginOptions.inferredProject == "object" && pluginOptions.inferredProject.compilerOptions) {
+        options.inferredCompilerOptions = pluginOptions.inferredProject.compilerOptions;
+      }
+    }
+
+    if (pluginOptions.cache) {
+      let location = typeof pluginOptions.cache == "string" ? pluginOptions.cache : DEFAULT_CACHE_LOCATION;
+      options.cacheLocation = path.resolve(process.cwd(), location);
+    }
+
+    options.maxProjects = pluginOptions.maxProjects;
+    options.maxMemory = pluginOptions.maxMemory;
+    options.typescriptLocation = pluginOptions.typescript;
+    options.autofixCodes = pluginOptions.autofix;
+    options.includeCodes = pluginOptions.include;
+    options.excludeCodes = pluginOptions.exclude;
+    options.messageChainDepth = pluginOptions.messageChainDepth;
+
+    if (pluginOptions.baseline) {
+      options.baseline = path.resolve(process.cwd(), pluginOptions.baseline);
+      options.updateBaseline = process.env[UPDATE_BASELINE_VARIABLE] == "1";
+    }
+
+    if (pluginOptions.files) {
+      options.files = Array.isArray(pluginOptions.files) ? pluginOptions.files : [pluginOptions.files];
+    }
+
+    if (pluginOptions.messageIds) {
+      options.messageIds = parseMessageIds(pluginOptions.messageIds);
+    }
+
+    if (pluginOptions.workers) {
+      options.workers = typeof pluginOptions.workers == "number" ? pluginOptions.workers : defaultWorkerCount();
+    }
   }
 
   return options;
 }
 
+/**
+ * Reads the options for a rule from the rule's options and the shared settings.
+ * The categories can only be configured for rules that don't set them.
+ */
+export function optionsFromContext(context: Rule.RuleContext, pluginOptions?: PluginOptions): Options {
+  // The project may be configured in the rule's options or shared settings.
+  let settings: PluginOptions = context.settings[SETTINGS_KEY] || {};
+  let ruleOptions: PluginOptions = context.options[0] || {};
+
+  return optionsFromPlugin({
+    categories: pluginOptions ? pluginOptions.categories : ruleOptions.categories,
+    project: ruleOptions.project || settings.project,
+    inferredProject: ruleOptions.inferredProject !== undefined ? ruleOptions.inferredProject : settings.inferredProject,
+    cache: ruleOptions.cache !== undefined ? ruleOptions.cache : settings.cache,
+    workers: ruleOptions.workers !== undefined ? ruleOptions.workers : settings.workers,
+    maxProjects: ruleOptions.maxProjects !== undefined ? ruleOptions.maxProjects : settings.maxProjects,
+    maxMemory: ruleOptions.maxMemory !== undefined ? ruleOptions.maxMemory : settings.maxMemory,
+    typescript: ruleOptions.typescript || settings.typescript,
+    autofix: ruleOptions.autofix || settings.autofix,
+    include: ruleOptions.include || settings.include,
+    exclude: ruleOptions.exclude || settings.exclude,
+    files: ruleOptions.files || settings.files,
+    messageIds: ruleOptions.messageIds || settings.messageIds,
+    messageChainDepth: ruleOptions.messageChainDepth !== undefined ?
+      ruleOptions.messageChainDepth :
+      settings.messageChainDepth,
+    baseline: ruleOptions.baseline || settings.baseline,
+  });
+}
+
+/**
+ * Reads the options from the shared settings alone, for rules whose own options
+ * are not this plugin's.
+ */
+export function optionsFromSettings(context: Rule.RuleContext): Options {
+  return optionsFromPlugin(context.settings[SETTINGS_KEY] || {});
+}
+
 export function buildRule(pluginOptions?: PluginOptions): Rule.RuleModule {
+  let messages: Record<string, string> = {
+    tsconfig: "{{ location }}: {{ text }} ts({{ code }}) {{ category }}{{ related }}",
+    noproject: "File is not included in any of the configured TypeScript projects: {{ projects }}",
+    baseline: "Baseline entry no longer occurs {{ count }} time(s), update the baseline: {{ text }} ts({{ code }}) {{ category }}",
+  };
+  for (let messageId of DIAGNOSTIC_MESSAGE_IDS) {
+    messages[messageId] = "{{ text }} ts({{ code }}) {{ category }}{{ related }}";
+  }
+
   return {
     meta: {
       type: "problem",
-      messages: {
-        tserror: "{{ text }} ts({{ code }}) {{ category }}"
-      }
+      fixable: "code",
+      messages,
+      schema: buildSchema(!pluginOptions || !pluginOptions.categories),
     },
     create: function(context: Rule.RuleContext): Rule.RuleListener {
-      let options: Options;
-      if (pluginOptions) {
-        options = optionsFromPlugin(pluginOptions);
-      } else {
-        options = optionsFromPlugin(context.options[0]);
-      }
+      let options = optionsFromContext(context, pluginOptions);
       return {
         Program: (node: Node): void => checkTypes(context, node, options),
       };
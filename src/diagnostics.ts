@@ -0,0 +1,95 @@
+import path from "path";
+import {
+  Diagnostic, DiagnosticCategory, DiagnosticMessageChain, DiagnosticRelatedInformation,
+  LineAndCharacter, TextChange } from "typescript";
+
+/**
+ * A code fix whose changes are all to the file that the diagnostic is in.
+ */
+export interface FileCodeFix {
+  description: string;
+  changes: TextChange[];
+}
+
+/**
+ * A diagnostic with its positions already resolved to lines and characters.
+ * Unlike the compiler's diagnostics these hold no reference to the program so
+ * they can be cached, written to disk and passed between threads.
+ */
+export interface FileDiagnostic {
+  fileName?: string;
+  start?: number;
+  length?: number;
+  startLocation?: LineAndCharacter;
+  endLocation?: LineAndCharacter;
+  code: number;
+  category: DiagnosticCategory;
+  messageText: string | DiagnosticMessageChain;
+  reportsUnnecessary?: {};
+  relatedInformation?: FileDiagnostic[];
+  // Only looked for once the diagnostic is reported.
+  fixes?: FileCodeFix[];
+}
+
+/**
+ * Converts a diagnostic from the compiler.
+ */
+export function toFileDiagnostic(diagnostic: Diagnostic | DiagnosticRelatedInformation): FileDiagnostic {
+  let file = diagnostic.file;
+  let start = diagnostic.start;
+
+  return {
+    fileName: file ? file.fileName : undefined,
+    start,
+    length: diagnostic.length,
+    startLocation: file && start !== undefined ? file.getLineAndCharacterOfPosition(start) : undefined,
+    endLocation: file && start !== undefined ?
+      file.getLineAndCharacterOfPosition(start + (diagnostic.length || 0)) :
+      undefined,
+    code: diagnostic.code,
+    category: diagnostic.category,
+    messageText: diagnostic.messageText,
+    reportsUnnecessary: "reportsUnnecessary" in diagnostic ? diagnostic.reportsUnnecessary : undefined,
+    relatedInformation: "relatedInformation" in diagnostic && diagnostic.relatedInformation ?
+      diagnostic.relatedInformation.map(toFileDiagnostic) :
+      undefined,
+  };
+}
+
+/**
+ * Flattens a message chain into lines, each level of the chain indented
+ * further than the last. Levels deeper than maxDepth are left out.
+ */
+export function flattenMessageChain(messageText: string | DiagnosticMessageChain, maxDepth?: number, depth: number = 0): string {
+  if (typeof messageText == "string") {
+    return messageText;
+  }
+
+  let lines = ["  ".repeat(depth) + messageText.messageText];
+  if (maxDepth === undefined || depth < maxDepth) {
+    // Older versions of TypeScript only had a single next message.
+    let next = ([] as DiagnosticMessageChain[]).concat(messageText.next || []);
+    for (let chain of next) {
+      lines.push(flattenMessageChain(chain, maxDepth, depth + 1));
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Describes a related location as "file:line:column: message" with the file
+ * relative to the current working directory.
+ */
+export function formatRelatedInformation(related: FileDiagnostic, maxDepth?: number): string {
+  let message = flattenMessageChain(related.messageText, maxDepth);
+  if (!related.fileName) {
+    return message;
+  }
+
+  let location = path.relative(process.cwd(), related.fileName);
+  if (related.startLocation) {
+    location += `:${related.startLocation.line + 1}:${related.startLocation.character + 1}`;
+  }
+  return `${location}: ${message}`;
+}
@@ -1,6 +1,8 @@
 import { Rule } from "eslint";
 
 import { buildRule } from "./check-types";
+import { buildOrganizeImportsRule } from "./organize-imports";
+import { getTypeScriptServices } from "./services";
 
 interface PluginRules {
   [s: string]: Rule.RuleModule;
@@ -8,6 +10,7 @@ interface PluginRules {
 
 interface Plugin {
   rules: PluginRules;
+  getTypeScriptServices: typeof getTypeScriptServices;
 }
 
 const rules: Plugin = {
@@ -17,7 +20,9 @@ const rules: Plugin = {
     "type-warnings": buildRule({ categories: ["warnings"] }),
     "type-suggestions": buildRule({ categories: ["suggestions"] }),
     "type-messages": buildRule({ categories: ["messages"] }),
+    "organize-imports": buildOrganizeImportsRule(),
   },
+  getTypeScriptServices,
 };
 
 module.exports = rules;
@@ -0,0 +1,180 @@
+import { Rule } from "eslint";
+import {
+  ImportDeclaration, ImportDefaultSpecifier, ImportNamespaceSpecifier, ImportSpecifier, Node, Program } from "estree";
+import { ScriptTarget, Statement, TextChange } from "typescript";
+
+import { findLintedProject, Options, optionsFromContext } from "./check-types";
+import { getOrganizeImportsChanges } from "./project";
+import { buildProjectSchema } from "./schema";
+import { TypeScript } from "./typescript";
+import { getScript } from "./virtual";
+
+type Specifier = ImportSpecifier | ImportDefaultSpecifier | ImportNamespaceSpecifier;
+
+// The module and the local names that each import declaration imports.
+interface OrganizedImport {
+  source: string;
+  names: string[];
+}
+
+function applyChanges(text: string, changes: TextChange[]): string {
+  let sorted = changes.slice().sort((a: TextChange, b: TextChange): number => b.span.start - a.span.start);
+  for (let change of sorted) {
+    text = text.substring(0, change.span.start) + change.newText + text.substring(change.span.start + change.span.length);
+  }
+  return text;
+}
+
+// Parses the import declarations out of the organized text.
+function parseImports(ts: TypeScript, filename: string, text: string): OrganizedImport[] {
+  let sourceFile = ts.createSourceFile(filename, text, ScriptTarget.Latest);
+  let imports: OrganizedImport[] = [];
+
+  sourceFile.statements.forEach((statement: Statement): void => {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+      return;
+    }
+
+    let names: string[] = [];
+    let clause = statement.importClause;
+    if (clause && clause.name) {
+      names.push(clause.name.text);
+    }
+    if (clause && clause.namedBindings) {
+      if (ts.isNamespaceImport(clause.namedBindings)) {
+        names.push(clause.namedBindings.name.text);
+      } else {
+        for (let element of clause.namedBindings.elements) {
+          names.push(element.name.text);
+        }
+      }
+    }
+
+    imports.push({
+      source: statement.moduleSpecifier.text,
+      names,
+    });
+  });
+
+  return imports;
+}
+
+function importSource(declaration: ImportDeclaration): string {
+  return String(declaration.source.value);
+}
+
+// Lists the names imported from each module in the order they appear.
+function namesBySource(imports: OrganizedImport[]): Map<string, string[]> {
+  let sources = new Map<string, string[]>();
+  for (let { source, names } of imports) {
+    sources.set(source, (sources.get(source) || []).concat(names));
+  }
+  return sources;
+}
+
+function checkImports(context: Rule.RuleContext, program: Program, options: Options): void {
+  let script = getScript(context.getFilename(), context.getSourceCode().text);
+  let project = findLintedProject(context, script, options);
+  if (!project) {
+    return;
+  }
+
+  let filename = script.fileName;
+  let text = script.text;
+
+  // Virtual scripts end with code that is not in the file being linted.
+  let length = context.getSourceCode().text.length;
+  let changes = getOrganizeImportsChanges(project, filename).filter((change: TextChange): boolean => {
+    return change.span.start + change.span.length <= length;
+  });
+  let organizedText = applyChanges(text, changes);
+  if (organizedText == text) {
+    return;
+  }
+
+  // Every problem is fixed by the same changes.
+  let fix = (fixer: Rule.RuleFixer): Rule.Fix[] => {
+    return changes.map((change: TextChange): Rule.Fix => {
+      return fixer.replaceTextRange([change.span.start, change.span.start + change.span.length], change.newText);
+    });
+  };
+
+  let declarations = program.body.filter((node: Node): node is ImportDeclaration => node.type == "ImportDeclaration");
+  let original = declarations.map((declaration: ImportDeclaration): OrganizedImport => {
+    return {
+      source: importSource(declaration),
+      names: declaration.specifiers.map((specifier: Specifier): string => specifier.local.name),
+    };
+  });
+  let organized = parseImports(project.ts, filename, organizedText);
+  let organizedNames = new Set(([] as string[]).concat(...organized.map((item: OrganizedImport): string[] => item.names)));
+
+  for (let declaration of declarations) {
+    for (let specifier of declaration.specifiers) {
+      if (!organizedNames.has(specifier.local.name)) {
+        context.report({
+          node: specifier,
+          messageId: "unused",
+          data: { name: specifier.local.name },
+          fix,
+        });
+      }
+    }
+  }
+
+  let seen = new Set<string>();
+  for (let declaration of declarations) {
+    let source = importSource(declaration);
+    if (seen.has(source) && organized.some((item: OrganizedImport): boolean => item.source == source)) {
+      context.report({
+        node: declaration,
+        messageId: "duplicate",
+        data: { source },
+        fix,
+      });
+    }
+    seen.add(source);
+  }
+
+  // Ignoring what was removed, the modules or the names imported from them
+  // are in a different order. Differences in formatting alone are not reported.
+  let originalNames = namesBySource(original);
+  let sortedNames = namesBySource(organized);
+  let originalOrder = Array.from(originalNames.keys()).filter((source: string): boolean => sortedNames.has(source));
+  let unsorted = originalOrder.join("\n") != Array.from(sortedNames.keys()).join("\n");
+  for (let [source, names] of sortedNames) {
+    let kept = (originalNames.get(source) || []).filter((name: string): boolean => names.includes(name));
+    if (kept.join("\n") != names.join("\n")) {
+      unsorted = true;
+    }
+  }
+
+  if (unsorted) {
+    context.report({
+      node: declarations.length ? declarations[0] : program,
+      messageId: "unsorted",
+      fix,
+    });
+  }
+}
+
+export function buildOrganizeImportsRule(): Rule.RuleModule {
+  return {
+    meta: {
+      type: "suggestion",
+      fixable: "code",
+      messages: {
+        unused: "'{{ name }}' is imported but never used.",
+        duplicate: "'{{ source }}' is already imported.",
+        unsorted: "Imports are not sorted.",
+      },
+      schema: buildProjectSchema(),
+    },
+    create: function(context: Rule.RuleContext): Rule.RuleListener {
+      let options = optionsFromContext(context);
+      return {
+        Program: (node: Node): void => checkImports(context, node as Program, options),
+      };
+    }
+  };
+}
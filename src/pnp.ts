@@ -0,0 +1,172 @@
+import path from "path";
+import {
+  CompilerOptions, FileReference, ModuleKind, ModuleResolutionHost, ResolvedModuleFull, ResolvedProjectReference,
+  ResolvedTypeReferenceDirective, ResolvedTypeReferenceDirectiveWithFailedLookupLocations } from "typescript";
+
+import { TypeScript } from "./typescript";
+import { findAbove } from "./utils";
+
+interface PackageLocator {
+  name: string | null;
+  reference: string | null;
+}
+
+interface PackageInformation {
+  packageLocation: string;
+  packageDependencies: Map<string, string | [string, string] | null>;
+}
+
+/**
+ * The parts of Yarn's Plug'n'Play API that we use.
+ */
+export interface PnpApi {
+  findPackageLocator(location: string): PackageLocator | null;
+  getPackageInformation(locator: PackageLocator): PackageInformation | null;
+  resolveToUnqualified(request: string, issuer: string | null): string | null;
+  setup?(): void;
+}
+
+/**
+ * Since TypeScript 4.7 triple-slash type references are passed to the host as
+ * file references, with the module format to resolve them for.
+ */
+export interface TypeReference extends FileReference {
+  resolutionMode?: ModuleKind;
+}
+
+// Newer versions of TypeScript also take a cache and the module format to
+// resolve for.
+type ResolveTypeReferenceDirective = (name: string, containingFile: string | undefined, options: CompilerOptions, host: ModuleResolutionHost, redirectedReference?: ResolvedProjectReference, cache?: undefined, resolutionMode?: ModuleKind) => ResolvedTypeReferenceDirectiveWithFailedLookupLocations;
+
+const PNP_FILES = [".pnp.cjs", ".pnp.js"];
+
+const pnpMap = new Map<string, PnpApi>();
+
+/**
+ * Finds the Plug'n'Play runtime for the workspace containing a directory. This
+ * also makes sure that files can be read out of the zip archives in the cache.
+ */
+export function findPnpApi(directory: string): PnpApi | null {
+  let pnpFile = findAbove(directory, PNP_FILES);
+  if (!pnpFile) {
+    return null;
+  }
+
+  let api = pnpMap.get(pnpFile);
+  if (api) {
+    return api;
+  }
+
+  api = require(pnpFile) as PnpApi;
+  // When ESLint is already running under this runtime the filesystem has been
+  // patched. Otherwise this patches it.
+  if (!("pnp" in process.versions) && api.setup) {
+    api.setup();
+  }
+
+  pnpMap.set(pnpFile, api);
+  return api;
+}
+
+// Splits a bare module name into the package and the path within it.
+function splitModuleName(name: string): [string, string] {
+  let parts = name.split("/");
+  let count = name.startsWith("@") ? 2 : 1;
+  return [parts.slice(0, count).join("/"), parts.slice(count).join("/")];
+}
+
+function typesPackageName(name: string): string {
+  if (name.startsWith("@")) {
+    return `@types/${name.substring(1).replace("/", "__")}`;
+  }
+  return `@types/${name}`;
+}
+
+function locatePackage(api: PnpApi, name: string, issuer: string): string | null {
+  try {
+    return api.resolveToUnqualified(name, issuer);
+  } catch (e) {
+    // Thrown when the package is not a dependency of the issuer.
+    return null;
+  }
+}
+
+/**
+ * Resolves a module through the Plug'n'Play runtime. Relative imports and
+ * those matched by "paths" are left to the compiler, bare imports are looked
+ * up in the runtime and then in the runtime's @types packages.
+ */
+export function resolvePnpModule(ts: TypeScript, api: PnpApi, name: string, containingFile: string, options: CompilerOptions, host: ModuleResolutionHost, redirectedReference?: ResolvedProjectReference): ResolvedModuleFull | undefined {
+  let resolved = ts.resolveModuleName(name, containingFile, options, host, undefined, redirectedReference).resolvedModule;
+  if (resolved || name.startsWith(".") || path.isAbsolute(name)) {
+    return resolved;
+  }
+
+  let [packageName, subpath] = splitModuleName(name);
+  for (let candidate of [packageName, typesPackageName(packageName)]) {
+    let location = locatePackage(api, candidate, containingFile);
+    if (!location) {
+      continue;
+    }
+
+    resolved = ts.resolveModuleName(path.join(location, subpath), containingFile, options, host, undefined, redirectedReference).resolvedModule;
+    if (resolved) {
+      return {
+        ...resolved,
+        isExternalLibraryImport: true,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolves a type reference directive, from either a triple-slash reference or
+ * the "types" compiler option, through the Plug'n'Play runtime.
+ */
+export function resolvePnpTypeReference(ts: TypeScript, api: PnpApi, name: string, containingFile: string, options: CompilerOptions, host: ModuleResolutionHost, redirectedReference?: ResolvedProjectReference, resolutionMode?: ModuleKind): ResolvedTypeReferenceDirective | undefined {
+  let resolve = ts.resolveTypeReferenceDirective as ResolveTypeReferenceDirective;
+  let resolved = resolve(name, containingFile, options, host, redirectedReference, undefined, resolutionMode).resolvedTypeReferenceDirective;
+  if (resolved) {
+    return resolved;
+  }
+
+  let location = locatePackage(api, typesPackageName(name), containingFile);
+  if (!location) {
+    return undefined;
+  }
+
+  let module = ts.resolveModuleName(location, containingFile, options, host, undefined, redirectedReference).resolvedModule;
+  if (!module) {
+    return undefined;
+  }
+
+  return {
+    primary: false,
+    resolvedFileName: module.resolvedFileName,
+    isExternalLibraryImport: true,
+  };
+}
+
+/**
+ * Without a node_modules/@types directory the compiler cannot find the types
+ * packages to include automatically. This lists the @types dependencies of the
+ * workspace containing the directory instead.
+ */
+export function findPnpTypesPackages(api: PnpApi, directory: string): string[] {
+  let locator = api.findPackageLocator(directory + path.sep);
+  let info = locator ? api.getPackageInformation(locator) : null;
+  if (!info) {
+    return [];
+  }
+
+  let types: string[] = [];
+  for (let dependency of info.packageDependencies.keys()) {
+    if (dependency.startsWith("@types/")) {
+      types.push(dependency.substring("@types/".length));
+    }
+  }
+
+  return types;
+}
@@ -0,0 +1,185 @@
+import path from "path";
+import os from "os";
+import { MessageChannel, MessagePort, receiveMessageOnPort, Worker } from "worker_threads";
+
+import { FileDiagnostic } from "./diagnostics";
+
+// The states of each file in the shared claims array. A worker claims a file
+// with CLAIMED_BY_WORKER plus its id so its claims can be released if it dies.
+export const UNCLAIMED = 0;
+export const CLAIMED_BY_RULE = 1;
+export const CLAIMED_BY_WORKER = 2;
+
+// How long, in milliseconds, to wait for a worker to finish checking a file
+// before giving up and checking it on the main thread.
+const WAIT_TIMEOUT = 60000;
+
+/**
+ * What each worker is started with. The buffers are shared with the main thread
+ * and back Int32Arrays.
+ */
+export interface WorkerData {
+  id: number;
+  configFile: string;
+  files: string[];
+  cacheLocation?: string;
+  typescriptLocation?: string;
+  // The index of the next file to check.
+  next: SharedArrayBuffer;
+  // The state of each file.
+  claims: SharedArrayBuffer;
+  // Incremented whenever a worker posts a result.
+  signal: SharedArrayBuffer;
+  port: MessagePort;
+}
+
+/**
+ * The result of a worker checking a file.
+ */
+export interface PrecheckResult {
+  fileName: string;
+  // The content hashes of the file and everything that it depends on as the
+  // worker saw them.
+  dependencies: [string, string][];
+  // Missing if the worker failed to check the file.
+  diagnostics?: FileDiagnostic[];
+}
+
+/**
+ * The number of workers to use when none is configured, leaving a core for
+ * ESLint.
+ */
+export function defaultWorkerCount(): number {
+  return Math.max(1, os.cpus().length - 1);
+}
+
+/**
+ * Checks a project's files in worker threads ahead of the rule asking for
+ * them. The workers claim files from a shared list so whichever is free takes
+ * the next one. If the rule gets to a file that no worker has started on yet it
+ * claims the file itself, otherwise it blocks until the worker is done.
+ */
+export class Precheck {
+  private workers: Worker[];
+  private ports: MessagePort[];
+  private files: string[];
+  private indexes: Map<string, number>;
+  private claims: Int32Array;
+  private signal: Int32Array;
+  private results: Map<string, PrecheckResult>;
+
+  public constructor(configFile: string, files: string[], workerCount: number, cacheLocation?: string, typescriptLocation?: string) {
+    this.workers = [];
+    this.ports = [];
+    this.files = files;
+    this.indexes = new Map(files.map((file: string, index: number): [string, number] => [file, index]));
+    this.results = new Map();
+
+    let next = new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT);
+    let claims = new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT * files.length);
+    let signal = new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT);
+    this.claims = new Int32Array(claims);
+    this.signal = new Int32Array(signal);
+
+    for (let i = 0; i < Math.min(workerCount, files.length); i++) {
+      let channel = new MessageChannel();
+      let workerData: WorkerData = {
+        id: i,
+        configFile,
+        files,
+        cacheLocation,
+        typescriptLocation,
+        next,
+        claims,
+        signal,
+        port: channel.port2,
+      };
+
+      let worker = new Worker(path.join(__dirname, "worker.js"), {
+        workerData,
+        transferList: [channel.port2],
+      });
+      // A worker that fails to load the project checks nothing, the rule then
+      // checks the files itself.
+      worker.on("error", (): void => {});
+      worker.on("exit", (): void => this.release(i));
+      // Don't keep ESLint running once it is done.
+      worker.unref();
+
+      this.workers.push(worker);
+      this.ports.push(channel.port1);
+    }
+  }
+
+  private receive(): void {
+    for (let port of this.ports) {
+      let received = receiveMessageOnPort(port);
+      while (received) {
+        let result: PrecheckResult = received.message;
+        this.results.set(result.fileName, result);
+        received = receiveMessageOnPort(port);
+      }
+    }
+  }
+
+  // A worker that stopped before finishing the files it claimed, such as by
+  // running out of memory, will never post their results. The rule checks
+  // those itself.
+  private release(id: number): void {
+    this.receive();
+    this.files.forEach((file: string, index: number): void => {
+      if (!this.results.has(file)) {
+        Atomics.compareExchange(this.claims, index, CLAIMED_BY_WORKER + id, UNCLAIMED);
+      }
+    });
+  }
+
+  /**
+   * Gets a worker's result for a file, waiting for it if a worker is checking
+   * it. Returns undefined if the file should be checked on this thread instead.
+   */
+  public getResult(fileName: string): PrecheckResult | undefined {
+    this.receive();
+    let result = this.results.get(fileName);
+    if (result) {
+      return result;
+    }
+
+    let index = this.indexes.get(fileName);
+    if (index === undefined) {
+      return undefined;
+    }
+
+    let claim = Atomics.compareExchange(this.claims, index, UNCLAIMED, CLAIMED_BY_RULE);
+    if (claim < CLAIMED_BY_WORKER) {
+      return undefined;
+    }
+
+    let deadline = Date.now() + WAIT_TIMEOUT;
+    while (!result) {
+      let remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return undefined;
+      }
+
+      let seen = Atomics.load(this.signal, 0);
+      this.receive();
+      result = this.results.get(fileName);
+      if (!result) {
+        Atomics.wait(this.signal, 0, seen, remaining);
+      }
+    }
+
+    return result;
+  }
+
+  public dispose(): void {
+    for (let worker of this.workers) {
+      worker.terminate();
+    }
+    for (let port of this.ports) {
+      port.close();
+    }
+    this.results.clear();
+  }
+}
@@ -0,0 +1,812 @@
+import path from "path";
+import fs from "fs";
+import {
+  NewLineKind, LanguageService, LanguageServiceHost, Diagnostic,
+  IScriptSnapshot, TextChangeRange, CompilerOptions,
+  ResolvedProjectReference, ResolvedModuleFull, ResolvedTypeReferenceDirective,
+  Extension, ModuleKind, ProjectReference, SemanticDiagnosticsBuilderProgram, CodeFixAction, FileTextChanges,
+  SourceFile, TextChange } from "typescript";
+
+import { buildCacheKey, readCache, writeCache } from "./cache";
+import { FileCodeFix, FileDiagnostic, toFileDiagnostic } from "./diagnostics";
+import {
+  findPnpApi, findPnpTypesPackages, PnpApi, resolvePnpModule, resolvePnpTypeReference, TypeReference } from "./pnp";
+import { Precheck } from "./precheck";
+import { loadTypeScript, TypeScript } from "./typescript";
+import { Config, decodeConfig, decodeInferredConfig, getModifiedTime, hashText, isFile, parents } from "./utils";
+import { Script } from "./virtual";
+
+// The config files that define a project. When both are in the same directory
+// the tsconfig.json is used.
+export const CONFIG_FILES = ["tsconfig.json", "jsconfig.json"];
+
+const TS_EXTENSIONS = [
+  Extension.Ts,
+  Extension.Tsx,
+];
+
+const JS_EXTENSIONS = [
+  Extension.Js,
+  Extension.Jsx,
+];
+
+// The files that can be added to an inferred project.
+const INFERRED_EXTENSIONS = TS_EXTENSIONS.concat(JS_EXTENSIONS);
+
+// The compiler leaves a file out of the program if the compiler options don't
+// allow its extension, such as JavaScript without allowJs, and then fails when
+// asked for its diagnostics.
+function isAllowedFile(compilerOptions: CompilerOptions, fileName: string): boolean {
+  let extensions = compilerOptions.allowJs ? INFERRED_EXTENSIONS : TS_EXTENSIONS;
+  return extensions.some((extension: Extension): boolean => fileName.endsWith(extension));
+}
+
+// How often, in milliseconds, to look for changes to a project's files.
+const REFRESH_INTERVAL = 1000;
+
+const projectMap = new Map<string, ESLintProject>();
+
+class ScriptSnapshot implements IScriptSnapshot {
+  private script: null | string;
+  private host: ESLintServiceHost;
+  private filename: string;
+
+  public constructor(host: ESLintServiceHost, filename: string, script: null | string = null) {
+    this.script = script;
+    this.host = host;
+    this.filename = filename;
+  }
+
+  private getContent(): string {
+    if (this.script !== null) {
+      return this.script;
+    }
+
+    this.script = fs.readFileSync(this.filename, { encoding: "utf8" });
+    return this.script;
+  }
+
+  public hasContent(text: string): boolean {
+    return this.getContent() == text;
+  }
+
+  /** Gets a portion of the script snapshot specified by [start, end). */
+  public getText(start: number, end: number): string {
+    return this.getContent().substr(start, end - start);
+  }
+
+  /** Gets the length of this script snapshot. */
+  public getLength(): number {
+    return this.getContent().length;
+  }
+
+  /**
+   * Gets the TextChangeRange that describe how the text changed between this text and
+   * an older version.  This information is used by the incremental parser to determine
+   * what sections of the script need to be re-parsed.  'undefined' can be returned if the
+   * change range cannot be determined.  However, in that case, incremental parsing will
+   * not happen and the entire document will be re - parsed.
+   */
+  public getChangeRange(): TextChangeRange | undefined {
+    return undefined;
+  }
+
+  /** Releases all resources held by this script snapshot */
+  public dispose(): void {
+    this.script = null;
+    this.host.snapshots.delete(this.filename);
+  }
+}
+
+/**
+ * A loaded TypeScript project and the language service that checks it.
+ */
+export interface ESLintProject {
+  // The key in projectMap.
+  key: string;
+  configFile: string;
+  inferred: boolean;
+  // The TypeScript that the project is checked with.
+  ts: TypeScript;
+  // Identifies this build of the project, it changes when the config does.
+  version: string;
+  host: ESLintServiceHost;
+  language: LanguageService;
+  builder?: SemanticDiagnosticsBuilderProgram;
+  // The files in the builder's program that are not modules. What they declare
+  // is visible to every file without being imported.
+  globalFiles?: string[];
+  configDiagnostics: Diagnostic[];
+  // The config diagnostics along with the compiler options and global
+  // diagnostics, computed when first needed and again once the project has
+  // changed.
+  projectDiagnostics?: Diagnostic[];
+  projectDiagnosticsVersion?: string;
+  // When the project was last checked for changes.
+  lastRefresh: number;
+  configModified: number;
+  // The modification times of the directories that files in the project could
+  // be added to.
+  directories: Map<string, number>;
+  // The modification times of the directories that @types packages are found
+  // in, installing or removing a package changes one of them.
+  typeRoots: Map<string, number>;
+  // The workers checking the project's files ahead of time, if any.
+  precheck?: Precheck;
+}
+
+interface ScriptVersion {
+  // The file's modification time when it was last checked.
+  mtime: number;
+  version: string;
+  // A hash of the file's content, only computed when needed.
+  hash?: string;
+}
+
+export class ESLintServiceHost implements LanguageServiceHost {
+  private ts: TypeScript;
+  private config: Config;
+  public snapshots: Map<string, ScriptSnapshot>;
+  private versions: Map<string, ScriptVersion>;
+  private projectVersion: number;
+  private files: string[];
+  private filesHash?: string;
+  // The virtual file being checked, if any. Only the last one is kept so that
+  // code blocks can't conflict with each other and don't build up.
+  private virtualFile?: string;
+
+  // Only provided when modules must be resolved through Yarn's Plug'n'Play,
+  // otherwise the compiler's own resolution is used.
+  public resolveModuleNames?: LanguageServiceHost["resolveModuleNames"];
+  public resolveTypeReferenceDirectives?: LanguageServiceHost["resolveTypeReferenceDirectives"];
+
+  public constructor(ts: TypeScript, projectRoot: string, config: Config) {
+    this.ts = ts;
+    this.config = config;
+    this.snapshots = new Map();
+    this.versions = new Map();
+    this.projectVersion = 0;
+    this.files = config.files;
+
+    let pnp = findPnpApi(projectRoot);
+    if (pnp) {
+      this.usePnp(pnp, projectRoot);
+    }
+  }
+
+  private usePnp(pnp: PnpApi, projectRoot: string): void {
+    if (!this.config.compilerOptions.types) {
+      this.config.compilerOptions = {
+        ...this.config.compilerOptions,
+        types: findPnpTypesPackages(pnp, projectRoot),
+      };
+    }
+
+    this.resolveModuleNames = (moduleNames: string[], containingFile: string, _reusedNames: string[] | undefined, redirectedReference: ResolvedProjectReference | undefined, options: CompilerOptions): (ResolvedModuleFull | undefined)[] => {
+      return moduleNames.map((name: string): ResolvedModuleFull | undefined => {
+        return resolvePnpModule(this.ts, pnp, name, containingFile, options, this, redirectedReference);
+      });
+    };
+
+    this.resolveTypeReferenceDirectives = (names: (string | TypeReference)[], containingFile: string | undefined, redirectedReference: ResolvedProjectReference | undefined, options: CompilerOptions, containingFileMode?: ModuleKind): (ResolvedTypeReferenceDirective | undefined)[] => {
+      // Automatic type directives have no containing file.
+      let issuer = containingFile || path.join(projectRoot, "__inferred type names__.ts");
+      return names.map((name: string | TypeReference): ResolvedTypeReferenceDirective | undefined => {
+        if (typeof name == "string") {
+          return resolvePnpTypeReference(this.ts, pnp, name, issuer, options, this, redirectedReference, containingFileMode);
+        }
+
+        // The compiler resolves type references in lower case.
+        return resolvePnpTypeReference(
+          this.ts, pnp, name.fileName.toLowerCase(), issuer, options, this, redirectedReference,
+          name.resolutionMode || containingFileMode
+        );
+      });
+    };
+  }
+
+  public getCompilationSettings(): CompilerOptions {
+    return this.config.compilerOptions;
+  }
+
+  public getNewLine(): string {
+    if (this.config.compilerOptions.newLine == NewLineKind.CarriageReturnLineFeed) {
+      return "\r\n";
+    }
+    return "\n";
+  }
+
+  // The language service logs its progress, which would end up mixed in with
+  // ESLint's output.
+  public log(): void {
+  }
+
+  public trace(s: string): void {
+    console.trace(s);
+  }
+
+  public error(s: string): void {
+    console.error(s);
+  }
+
+  public getScriptFileNames(): string[] {
+    return this.virtualFile ? this.files.concat([this.virtualFile]) : this.files;
+  }
+
+  // The files that the config includes, without the virtual file.
+  public getIncludedFileNames(): string[] {
+    return this.files;
+  }
+
+  public setScriptFileNames(files: string[]): void {
+    this.files = files;
+    this.filesHash = undefined;
+    this.projectVersion++;
+  }
+
+  // Adding or removing a file can change the diagnostics in any other file.
+  // Virtual files are modules that nothing imports so they are left out.
+  public getFilesHash(): string {
+    if (this.filesHash === undefined) {
+      this.filesHash = hashText(this.files.join("\n"));
+    }
+    return this.filesHash;
+  }
+
+  public addScriptFile(fileName: string): void {
+    if (!this.files.includes(fileName)) {
+      this.setScriptFileNames(this.files.concat([fileName]));
+    }
+  }
+
+  // Replaces the virtual file in the project, forgetting the last one. A file
+  // that the compiler options don't allow is left out of the project.
+  public setVirtualFile(fileName: string, text: string): void {
+    let virtualFile = isAllowedFile(this.config.compilerOptions, fileName) ? fileName : undefined;
+    if (this.virtualFile != virtualFile) {
+      if (this.virtualFile) {
+        this.snapshots.delete(this.virtualFile);
+        this.versions.delete(this.virtualFile);
+      }
+      this.virtualFile = virtualFile;
+      this.projectVersion++;
+    }
+
+    if (virtualFile) {
+      this.setScriptContent(virtualFile, text);
+    }
+  }
+
+  public getProjectReferences(): readonly ProjectReference[] | undefined {
+    return this.config.projectReferences;
+  }
+
+  // These are used for module and type reference resolution and to parse the
+  // config files of referenced projects. Without getDirectories the compiler
+  // cannot find the @types packages to include automatically.
+  public fileExists(fileName: string): boolean {
+    return this.ts.sys.fileExists(fileName);
+  }
+
+  public readFile(fileName: string, encoding?: string): string | undefined {
+    return this.ts.sys.readFile(fileName, encoding);
+  }
+
+  public readDirectory(directory: string, extensions?: readonly string[], exclude?: readonly string[], include?: readonly string[], depth?: number): string[] {
+    return this.ts.sys.readDirectory(directory, extensions, exclude, include, depth);
+  }
+
+  public directoryExists(directoryName: string): boolean {
+    return this.ts.sys.directoryExists(directoryName);
+  }
+
+  public getDirectories(directoryName: string): string[] {
+    return this.ts.sys.getDirectories(directoryName);
+  }
+
+  // Lets the compiler resolve symlinked packages to their real location, so
+  // they are only loaded once, unless preserveSymlinks is set.
+  public realpath(fileName: string): string {
+    return this.ts.sys.realpath ? this.ts.sys.realpath(fileName) : fileName;
+  }
+
+  // Lets the language service skip looking for changes when nothing changed.
+  public getProjectVersion(): string {
+    return String(this.projectVersion);
+  }
+
+  // Files on disk are versioned by their modification time, which is only
+  // checked again when the project is refreshed.
+  public getScriptVersion(fileName: string): string {
+    let version = this.versions.get(fileName);
+    if (!version) {
+      let mtime = getModifiedTime(fileName);
+      version = {
+        mtime,
+        version: String(mtime),
+      };
+      this.versions.set(fileName, version);
+    }
+
+    return version.version;
+  }
+
+  // Uses the text that ESLint is linting for a file rather than what is on
+  // disk, they differ in editors with unsaved changes. The file is versioned
+  // by a hash of its content. When the text is what is on disk the file keeps
+  // the version that it has from disk, whether or not it was loaded already.
+  public setScriptContent(fileName: string, text: string): void {
+    this.getScriptSnapshot(fileName);
+    let snapshot = this.snapshots.get(fileName);
+    if (snapshot && snapshot.hasContent(text)) {
+      return;
+    }
+
+    this.snapshots.set(fileName, new ScriptSnapshot(this, fileName, text));
+    let hash = hashText(text);
+    this.versions.set(fileName, {
+      mtime: getModifiedTime(fileName),
+      version: hash,
+      hash,
+    });
+    this.projectVersion++;
+  }
+
+  public getContentHash(fileName: string): string {
+    this.getScriptVersion(fileName);
+    let version = this.versions.get(fileName);
+    if (!version) {
+      return "";
+    }
+
+    if (version.hash === undefined) {
+      let snapshot = this.getScriptSnapshot(fileName);
+      version.hash = snapshot ? hashText(snapshot.getText(0, snapshot.getLength())) : "";
+    }
+    return version.hash;
+  }
+
+  // The language service only builds a new program when the project version
+  // changes, even once its last program has been thrown away.
+  public invalidate(): void {
+    this.projectVersion++;
+  }
+
+  // Forgets the content of any files that have changed on disk since they were
+  // loaded.
+  public refresh(): void {
+    for (let [fileName, version] of this.versions) {
+      if (getModifiedTime(fileName) != version.mtime) {
+        this.versions.delete(fileName);
+        this.snapshots.delete(fileName);
+        this.projectVersion++;
+      }
+    }
+  }
+
+  public getScriptSnapshot(fileName: string): IScriptSnapshot | undefined {
+    if (!this.snapshots.has(fileName)) {
+      // Outputs of referenced projects may not have been built yet.
+      if (!isFile(fileName)) {
+        return undefined;
+      }
+
+      this.snapshots.set(fileName, new ScriptSnapshot(this, fileName));
+    }
+    return this.snapshots.get(fileName);
+  }
+
+  public getCurrentDirectory(): string {
+    return process.cwd();
+  }
+
+  public getDefaultLibFileName(options: CompilerOptions): string {
+    return this.ts.getDefaultLibFilePath(options);
+  }
+}
+
+function getModifiedTimes(directories: string[]): Map<string, number> {
+  return new Map(directories.map((directory: string): [string, number] => [directory, getModifiedTime(directory)]));
+}
+
+// The compiler looks for @types packages in the configured type roots or in
+// node_modules/@types in the project's directory and every one above it.
+function findTypeRoots(config: Config, projectRoot: string): Map<string, number> {
+  let typeRoots = config.compilerOptions.typeRoots || Array.from(parents(projectRoot)).map((directory: string): string => {
+    return path.join(directory, "node_modules", "@types");
+  });
+  return getModifiedTimes(typeRoots);
+}
+
+// Identifies a build of the project, from its config and the @types packages
+// that were available.
+function buildVersion(key: string, configModified: number, typeRoots: Map<string, number>): string {
+  return `${key}@${configModified}@${hashText(Array.from(typeRoots.values()).join("\n"))}`;
+}
+
+function createProject(ts: TypeScript, key: string, configFile: string, projectRoot: string, config: Config): ESLintProject {
+  let host = new ESLintServiceHost(ts, projectRoot, config);
+  let configModified = getModifiedTime(configFile);
+  let typeRoots = findTypeRoots(config, projectRoot);
+
+  let project: ESLintProject = {
+    key,
+    configFile,
+    inferred: key != configFile,
+    ts,
+    version: buildVersion(key, configModified, typeRoots),
+    host,
+    language: ts.createLanguageService(host),
+    configDiagnostics: config.errors,
+    lastRefresh: Date.now(),
+    configModified,
+    directories: new Map(),
+    typeRoots,
+  };
+
+  projectMap.set(key, project);
+  return project;
+}
+
+function disposeProject(project: ESLintProject): void {
+  if (project.precheck) {
+    project.precheck.dispose();
+  }
+  project.language.dispose();
+  projectMap.delete(project.key);
+}
+
+// The projects are kept in the order they were last used in, so the first is
+// the least recently used.
+function touchProject(project: ESLintProject): void {
+  projectMap.delete(project.key);
+  projectMap.set(project.key, project);
+}
+
+/**
+ * Disposes of the least recently used projects, other than the one in use,
+ * while there are more than maxProjects loaded. If the heap is larger than
+ * maxMemory megabytes the least recently used project is disposed too, only
+ * one at a time as the memory is not released until it is garbage collected.
+ * The diagnostics already computed for their files remain cached.
+ */
+export function evictProjects(current: ESLintProject, maxProjects?: number, maxMemory?: number): void {
+  let idle = Array.from(projectMap.values()).filter((project: ESLintProject): boolean => project !== current);
+
+  if (maxProjects !== undefined) {
+    while (idle.length && projectMap.size > maxProjects) {
+      disposeProject(idle.shift() as ESLintProject);
+    }
+  }
+
+  if (maxMemory !== undefined && idle.length && process.memoryUsage().heapUsed > maxMemory * 1024 * 1024) {
+    disposeProject(idle[0]);
+  }
+}
+
+// Adds a directory and every directory below it, other than those that the
+// compiler skips when expanding the include specs.
+function addDirectoryTree(directories: Map<string, number>, directory: string): void {
+  directories.set(directory, getModifiedTime(directory));
+
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(directory, { withFileTypes: true });
+  } catch (e) {
+    return;
+  }
+
+  for (let entry of entries) {
+    if (entry.isDirectory() && entry.name != "node_modules" && !entry.name.startsWith(".")) {
+      addDirectoryTree(directories, path.join(directory, entry.name));
+    }
+  }
+}
+
+// A new file in the project changes the modification time of its directory.
+// That may be a directory that held no files before so every directory that
+// the include specs cover is watched, not just those containing files.
+function findDirectories(ts: TypeScript, configFile: string, config: Config): Map<string, number> {
+  let directories = new Map<string, number>();
+  for (let directory of [path.dirname(configFile), ...config.files.map((file: string): string => path.dirname(file))]) {
+    if (!directories.has(directory)) {
+      directories.set(directory, getModifiedTime(directory));
+    }
+  }
+
+  let wildcardDirectories = config.wildcardDirectories || {};
+  for (let directory of Object.keys(wildcardDirectories)) {
+    if (wildcardDirectories[directory] & ts.WatchDirectoryFlags.Recursive) {
+      addDirectoryTree(directories, directory);
+    } else if (!directories.has(directory)) {
+      directories.set(directory, getModifiedTime(directory));
+    }
+  }
+  return directories;
+}
+
+function openProject(ts: TypeScript, configFile: string): ESLintProject {
+  let config = decodeConfig(ts, configFile);
+  let project = createProject(ts, configFile, configFile, path.dirname(configFile), config);
+  project.directories = findDirectories(ts, configFile, config);
+  return project;
+}
+
+/**
+ * Loads the project for a config file, or refreshes it if already loaded. The
+ * project is checked with the TypeScript found from the config file's
+ * directory unless the location of a different one is given.
+ */
+export function loadProject(configFile: string, typescriptLocation?: string): ESLintProject {
+  let project = projectMap.get(configFile);
+  if (project) {
+    touchProject(project);
+    return refreshProject(project);
+  }
+
+  return openProject(loadTypeScript(path.dirname(configFile), typescriptLocation), configFile);
+}
+
+// In long running processes files change while the project is loaded. At most
+// once every REFRESH_INTERVAL this looks for changes to the project's config,
+// the set of files it includes and the files that it has loaded.
+function refreshProject(project: ESLintProject): ESLintProject {
+  let now = Date.now();
+  if (now - project.lastRefresh < REFRESH_INTERVAL) {
+    return project;
+  }
+  project.lastRefresh = now;
+
+  if (getModifiedTime(project.configFile) != project.configModified) {
+    disposeProject(project);
+    return openProject(project.ts, project.configFile);
+  }
+
+  for (let [directory, modified] of project.directories) {
+    if (getModifiedTime(directory) != modified) {
+      let config = decodeConfig(project.ts, project.configFile);
+      // Changes to directories that hold no files, such as build output, don't
+      // change the project.
+      if (config.files.join("\n") != project.host.getIncludedFileNames().join("\n")) {
+        project.host.setScriptFileNames(config.files);
+      }
+      project.directories = findDirectories(project.ts, project.configFile, config);
+      break;
+    }
+  }
+
+  for (let [directory, modified] of project.typeRoots) {
+    if (getModifiedTime(directory) != modified) {
+      // The compiler only looks for @types packages when it builds a program
+      // from scratch.
+      project.typeRoots = getModifiedTimes(Array.from(project.typeRoots.keys()));
+      project.version = buildVersion(project.key, project.configModified, project.typeRoots);
+      project.language.cleanupSemanticCache();
+      project.host.invalidate();
+      project.builder = undefined;
+      project.projectDiagnostics = undefined;
+      if (project.precheck) {
+        project.precheck.dispose();
+        project.precheck = undefined;
+      }
+      break;
+    }
+  }
+
+  project.host.refresh();
+  return project;
+}
+
+/**
+ * Finds the project that includes the file, either the given project or one
+ * that it references. Solution style configs include no files themselves and
+ * instead reference the projects that do.
+ */
+export function findOwningProject(project: ESLintProject, filename: string, seen: Set<string>, typescriptLocation?: string): ESLintProject | undefined {
+  if (project.host.getScriptFileNames().includes(filename)) {
+    return project;
+  }
+
+  seen.add(project.configFile);
+  for (let reference of project.host.getProjectReferences() || []) {
+    let configFile = project.ts.resolveProjectReferencePath(reference);
+    if (seen.has(configFile) || !isFile(configFile)) {
+      continue;
+    }
+
+    let found = findOwningProject(loadProject(configFile, typescriptLocation), filename, seen, typescriptLocation);
+    if (found) {
+      return found;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Files outside of any project share an inferred project, one for each set of
+ * compiler options. Files are added to it as they are linted.
+ */
+export function getInferredProject(script: Script, compilerOptions: object, typescriptLocation?: string): ESLintProject | undefined {
+  let filename = script.fileName;
+  if (!INFERRED_EXTENSIONS.some((extension: Extension): boolean => filename.endsWith(extension))) {
+    return undefined;
+  }
+
+  let key = `inferred:${JSON.stringify(compilerOptions)}`;
+  let project = projectMap.get(key);
+  if (project) {
+    touchProject(project);
+    project = refreshProject(project);
+  } else {
+    let ts = loadTypeScript(process.cwd(), typescriptLocation);
+    let config = decodeInferredConfig(ts, compilerOptions, process.cwd());
+    project = createProject(ts, key, "inferred project options", process.cwd(), config);
+  }
+
+  if (script.virtual) {
+    project.host.setVirtualFile(filename, script.text);
+  } else if (isAllowedFile(project.host.getCompilationSettings(), filename)) {
+    project.host.addScriptFile(filename);
+  }
+  return project;
+}
+
+function diagnosticKey(diagnostic: Diagnostic): string {
+  let fileName = diagnostic.file ? diagnostic.file.fileName : "";
+  return `${fileName}:${diagnostic.start}:${diagnostic.code}`;
+}
+
+/**
+ * Gets the problems with the project as a whole. These are the problems in its
+ * config and those that the compiler finds with the compiler options or when
+ * checking the program globally, such as a missing lib file or types package.
+ * Problems in the config file are often found by both.
+ */
+export function getProjectDiagnostics(project: ESLintProject): Diagnostic[] {
+  let version = project.host.getProjectVersion();
+  if (!project.projectDiagnostics || project.projectDiagnosticsVersion != version) {
+    let diagnostics = project.configDiagnostics.slice();
+    let seen = new Set(diagnostics.map(diagnosticKey));
+    for (let diagnostic of project.language.getCompilerOptionsDiagnostics()) {
+      if (!seen.has(diagnosticKey(diagnostic))) {
+        seen.add(diagnosticKey(diagnostic));
+        diagnostics.push(diagnostic);
+      }
+    }
+
+    project.projectDiagnostics = diagnostics;
+    project.projectDiagnosticsVersion = version;
+  }
+
+  return project.projectDiagnostics;
+}
+
+/**
+ * Finds the files that a file depends on, including itself. Besides what the
+ * file imports this includes every global script in the program, such as
+ * ambient declarations, as a change to any of them can affect every file.
+ */
+export function getDependencies(project: ESLintProject, filename: string): readonly string[] {
+  let program = project.language.getProgram();
+  let sourceFile = program ? program.getSourceFile(filename) : undefined;
+  if (!program || !sourceFile) {
+    return [filename];
+  }
+
+  if (!project.builder || project.builder.getProgram() !== program) {
+    project.builder = project.ts.createSemanticDiagnosticsBuilderProgram(program, {
+      useCaseSensitiveFileNames: (): boolean => project.ts.sys.useCaseSensitiveFileNames,
+    }, project.builder);
+    project.globalFiles = program.getSourceFiles().filter((file: SourceFile): boolean => {
+      return !project.ts.isExternalModule(file) && !file.fileName.endsWith(Extension.Json);
+    }).map((file: SourceFile): string => file.fileName);
+  }
+
+  let dependencies = new Set(project.builder.getAllDependencies(sourceFile));
+  for (let globalFile of project.globalFiles || []) {
+    dependencies.add(globalFile);
+  }
+  return Array.from(dependencies);
+}
+
+/**
+ * Builds a version for the diagnostics of a file from the versions of the file
+ * and everything that it depends on along with the list of files in the
+ * project, as a new global script would not be among the dependencies.
+ */
+export function getDiagnosticsVersion(project: ESLintProject, dependencies: readonly string[]): string {
+  let versions = dependencies.map((dependency: string): string => {
+    return `${dependency}@${project.host.getScriptVersion(dependency)}`;
+  });
+  return hashText([project.version, project.host.getFilesHash(), ...versions].join("\n"));
+}
+
+/**
+ * Finds the code fixes for a diagnostic in a file. ESLint can only apply
+ * changes to the file being linted so fixes that change other files or run
+ * commands, such as installing a types package, are left out.
+ */
+export function getCodeFixes(project: ESLintProject, filename: string, diagnostic: FileDiagnostic): FileCodeFix[] {
+  if (diagnostic.start === undefined || diagnostic.length === undefined ||
+      !project.ts.getSupportedCodeFixes().includes(String(diagnostic.code))) {
+    return [];
+  }
+
+  let actions: readonly CodeFixAction[];
+  try {
+    actions = project.language.getCodeFixesAtPosition(
+      filename, diagnostic.start, diagnostic.start + diagnostic.length, [diagnostic.code],
+      project.ts.getDefaultFormatCodeSettings(project.host.getNewLine()), {}
+    );
+  } catch (e) {
+    // Not every fix copes with every program.
+    return [];
+  }
+
+  let fixes: FileCodeFix[] = [];
+  for (let action of actions) {
+    if (action.commands || !action.changes.every((change: FileTextChanges): boolean => {
+      return change.fileName == filename && !change.isNewFile;
+    })) {
+      continue;
+    }
+
+    fixes.push({
+      description: action.description,
+      changes: ([] as TextChange[]).concat(...action.changes.map((change: FileTextChanges): TextChange[] => {
+        return change.textChanges.slice();
+      })),
+    });
+  }
+
+  return fixes;
+}
+
+/**
+ * Finds the changes that the language service's "Organize Imports" would make
+ * to a file.
+ */
+export function getOrganizeImportsChanges(project: ESLintProject, filename: string): TextChange[] {
+  let changes = project.language.organizeImports(
+    { type: "file", fileName: filename },
+    project.ts.getDefaultFormatCodeSettings(project.host.getNewLine()), {}
+  );
+
+  return ([] as TextChange[]).concat(...changes.map((change: FileTextChanges): TextChange[] => {
+    return change.fileName == filename ? change.textChanges.slice() : [];
+  }));
+}
+
+/**
+ * Computes the diagnostics for a file, or reads them from the persistent cache
+ * if there is one.
+ */
+export function getFileDiagnostics(project: ESLintProject, filename: string, dependencies: readonly string[], cacheLocation?: string): FileDiagnostic[] {
+  let program = project.language.getProgram();
+  let cacheKey: string | undefined = undefined;
+  if (cacheLocation && program) {
+    let filesHash = project.host.getFilesHash();
+    cacheKey = buildCacheKey(project.ts.version, program, filesHash, dependencies, (dependency: string): string => {
+      return project.host.getContentHash(dependency);
+    });
+
+    let diagnostics = readCache(cacheLocation, filename, cacheKey);
+    if (diagnostics) {
+      return diagnostics;
+    }
+  }
+
+  let diagnostics = project.language.getSemanticDiagnostics(filename)
+    .concat(
+      project.language.getSyntacticDiagnostics(filename),
+      project.language.getSuggestionDiagnostics(filename)
+    )
+    .map(toFileDiagnostic);
+
+  if (cacheLocation && cacheKey) {
+    writeCache(cacheLocation, filename, cacheKey, diagnostics);
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,130 @@
+import { Rule } from "eslint";
+
+/**
+ * The messageIds that diagnostics can be reported with, all with the same
+ * message. Each diagnostic code is reported as "tserror" unless mapped to one
+ * of the others.
+ */
+export const DIAGNOSTIC_MESSAGE_IDS = ["tserror", "syntax", "semantic", "unused", "implicitany", "javascript"];
+
+const CODES = {
+  type: "array",
+  items: {
+    type: "integer",
+    minimum: 1,
+  },
+  uniqueItems: true,
+};
+
+const PATTERNS = {
+  oneOf: [{
+    type: "string",
+  }, {
+    type: "array",
+    items: {
+      type: "string",
+    },
+  }],
+};
+
+const INFERRED_PROJECT = {
+  oneOf: [{
+    type: "boolean",
+  }, {
+    type: "object",
+    properties: {
+      compilerOptions: {
+        type: "object",
+      },
+    },
+    additionalProperties: false,
+  }],
+};
+
+const TYPESCRIPT = {
+  type: "string",
+};
+
+/**
+ * The schema for the options of rules that only need to find the project that
+ * a file is in, without checking its types.
+ */
+export function buildProjectSchema(): Rule.RuleMetaData["schema"] {
+  return [{
+    type: "object",
+    properties: {
+      project: PATTERNS,
+      inferredProject: INFERRED_PROJECT,
+      typescript: TYPESCRIPT,
+      files: PATTERNS,
+    },
+    additionalProperties: false,
+  }];
+}
+
+/**
+ * The schema for the options of the rules. The categories can only be given
+ * to rules that don't already set them.
+ */
+export function buildSchema(allowCategories: boolean): Rule.RuleMetaData["schema"] {
+  let properties: Record<string, object> = {
+    project: PATTERNS,
+    inferredProject: INFERRED_PROJECT,
+    cache: {
+      type: ["boolean", "string"],
+    },
+    workers: {
+      oneOf: [{
+        type: "boolean",
+      }, {
+        type: "integer",
+        minimum: 1,
+      }],
+    },
+    maxProjects: {
+      type: "integer",
+      minimum: 1,
+    },
+    maxMemory: {
+      type: "number",
+      minimum: 1,
+    },
+    typescript: TYPESCRIPT,
+    autofix: CODES,
+    include: CODES,
+    exclude: CODES,
+    files: PATTERNS,
+    baseline: {
+      type: "string",
+    },
+    messageChainDepth: {
+      type: "integer",
+      minimum: 0,
+    },
+    messageIds: {
+      type: "object",
+      patternProperties: {
+        "^[0-9]+(-[0-9]+)?$": {
+          enum: DIAGNOSTIC_MESSAGE_IDS,
+        },
+      },
+      additionalProperties: false,
+    },
+  };
+
+  if (allowCategories) {
+    properties.categories = {
+      type: "array",
+      items: {
+        enum: ["errors", "warnings", "messages", "suggestions"],
+      },
+      uniqueItems: true,
+    };
+  }
+
+  return [{
+    type: "object",
+    properties,
+    additionalProperties: false,
+  }];
+}
@@ -0,0 +1,172 @@
+import { Rule, SourceCode } from "eslint";
+import { Node as ESTreeNode } from "estree";
+import { Node as TSNode, Program, SourceFile, TypeChecker } from "typescript";
+
+import { findLintedProject, optionsFromSettings } from "./check-types";
+import { evictProjects } from "./project";
+import { TypeScript } from "./typescript";
+import { getScript } from "./virtual";
+
+/**
+ * Maps nodes from ESLint's syntax tree to the nodes in the TypeScript source
+ * file at the same position.
+ */
+export interface NodeMap {
+  get(node: ESTreeNode): TSNode | undefined;
+}
+
+/**
+ * The program that the file being linted is in and what is needed to use its
+ * type checker from a rule.
+ */
+export interface TypeScriptServices {
+  program: Program;
+  checker: TypeChecker;
+  sourceFile: SourceFile;
+  esTreeNodeToTSNodeMap: NodeMap;
+}
+
+// ESLint's node for a declared name or a binding pattern covers its type
+// annotation too, TypeScript's doesn't. These are found by where they start.
+const NODE_TESTS: Record<string, (ts: TypeScript, node: TSNode) => boolean> = {
+  Identifier: (ts: TypeScript, node: TSNode): boolean => ts.isIdentifier(node),
+  ObjectPattern: (ts: TypeScript, node: TSNode): boolean => ts.isObjectBindingPattern(node),
+  ArrayPattern: (ts: TypeScript, node: TSNode): boolean => ts.isArrayBindingPattern(node),
+};
+
+// Finds the outermost node starting at the position that passes the test.
+function findNodeAt(ts: TypeScript, sourceFile: SourceFile, position: number, test: (node: TSNode) => boolean): TSNode | undefined {
+  let found: TSNode | undefined;
+
+  let visit = (node: TSNode): void => {
+    let nodeStart = node.getStart(sourceFile);
+    if (found || nodeStart > position || node.getEnd() < position) {
+      return;
+    }
+
+    if (nodeStart == position && test(node)) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  ts.forEachChild(sourceFile, visit);
+  return found;
+}
+
+// Finds the deepest node that covers exactly the range, or if none does the
+// deepest that contains it.
+function findNode(ts: TypeScript, sourceFile: SourceFile, start: number, end: number): TSNode | undefined {
+  let found: TSNode | undefined;
+  let exact = false;
+
+  let visit = (node: TSNode): void => {
+    let nodeStart = node.getStart(sourceFile);
+    let nodeEnd = node.getEnd();
+    if (nodeStart > start || nodeEnd < end) {
+      return;
+    }
+
+    if (nodeStart == start && nodeEnd == end) {
+      found = node;
+      exact = true;
+    } else if (!exact) {
+      found = node;
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  ts.forEachChild(sourceFile, visit);
+  return found;
+}
+
+// The parser's own TypeScript nodes are not in the project's program so they
+// can't be used with its type checker, but they tell which node in the program
+// is wanted.
+function findParsedNode(ts: TypeScript, sourceFile: SourceFile, parsed: TSNode): TSNode | undefined {
+  let start = parsed.getStart();
+  let end = parsed.getEnd();
+  return findNodeAt(ts, sourceFile, start, (node: TSNode): boolean => {
+    return node.getEnd() == end && node.kind == parsed.kind;
+  });
+}
+
+function buildNodeMap(ts: TypeScript, sourceFile: SourceFile, parsedNodes?: NodeMap): NodeMap {
+  let nodes = new WeakMap<ESTreeNode, TSNode | undefined>();
+
+  let find = (node: ESTreeNode, start: number, end: number): TSNode | undefined => {
+    let parsed = parsedNodes ? parsedNodes.get(node) : undefined;
+    let found = parsed ? findParsedNode(ts, sourceFile, parsed) : undefined;
+    if (found) {
+      return found;
+    }
+
+    let test = NODE_TESTS[node.type];
+    if (test) {
+      found = findNodeAt(ts, sourceFile, start, (candidate: TSNode): boolean => test(ts, candidate));
+    }
+    return found || findNode(ts, sourceFile, start, end);
+  };
+
+  return {
+    get: (node: ESTreeNode): TSNode | undefined => {
+      if (!node.range) {
+        return undefined;
+      }
+
+      if (!nodes.has(node)) {
+        nodes.set(node, find(node, node.range[0], node.range[1]));
+      }
+      return nodes.get(node);
+    },
+  };
+}
+
+// The map from ESLint's nodes to the parser's TypeScript nodes, if the parser
+// provides one like @typescript-eslint/parser does.
+function parserNodes(context: Rule.RuleContext): NodeMap | undefined {
+  let parserServices = context.parserServices;
+  return parserServices && parserServices.esTreeNodeToTSNodeMap ? parserServices.esTreeNodeToTSNodeMap : undefined;
+}
+
+// Every rule linting the same file gets the same services.
+const servicesMap = new WeakMap<SourceCode, TypeScriptServices | undefined>();
+
+function buildServices(context: Rule.RuleContext): TypeScriptServices | undefined {
+  let options = optionsFromSettings(context);
+  let script = getScript(context.getFilename(), context.getSourceCode().text);
+  let project = findLintedProject(context, script, options);
+  if (!project) {
+    return undefined;
+  }
+
+  evictProjects(project, options.maxProjects, options.maxMemory);
+  let program = project.language.getProgram();
+  let sourceFile = program ? program.getSourceFile(script.fileName) : undefined;
+  if (!program || !sourceFile) {
+    return undefined;
+  }
+
+  return {
+    program,
+    checker: program.getTypeChecker(),
+    sourceFile,
+    esTreeNodeToTSNodeMap: buildNodeMap(project.ts, sourceFile, parserNodes(context)),
+  };
+}
+
+/**
+ * Gets the program and type checker for the file being linted so that other
+ * rules can use types without building a program of their own. This is the
+ * program of the project that this plugin checks the file in, so there is only
+ * ever one program for each project. Returns undefined if the file is in no
+ * project.
+ */
+export function getTypeScriptServices(context: Rule.RuleContext): TypeScriptServices | undefined {
+  let sourceCode = context.getSourceCode();
+  if (!servicesMap.has(sourceCode)) {
+    servicesMap.set(sourceCode, buildServices(context));
+  }
+  return servicesMap.get(sourceCode);
+}
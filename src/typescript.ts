@@ -0,0 +1,40 @@
+import path from "path";
+import * as bundled from "typescript";
+
+/**
+ * The TypeScript module, either the plugin's own or one loaded from elsewhere.
+ */
+export type TypeScript = typeof bundled;
+
+const typescriptMap = new Map<string, TypeScript>();
+
+function resolveTypeScript(directory: string, location?: string): string | null {
+  try {
+    if (location) {
+      // Either the package's directory or its main module.
+      return require.resolve(path.resolve(process.cwd(), location));
+    }
+    return require.resolve("typescript", { paths: [directory] });
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Loads the TypeScript that a project uses. That is the one at the configured
+ * location if there is one or otherwise the one that the project's directory
+ * resolves. The plugin's own TypeScript is only used if neither can be found.
+ */
+export function loadTypeScript(directory: string, location?: string): TypeScript {
+  let resolved = resolveTypeScript(directory, location);
+  if (!resolved) {
+    return bundled;
+  }
+
+  let typescript = typescriptMap.get(resolved);
+  if (!typescript) {
+    typescript = require(resolved) as TypeScript;
+    typescriptMap.set(resolved, typescript);
+  }
+  return typescript;
+}
@@ -1,279 +1,126 @@
 import path from "path";
 import fs from "fs";
+import crypto from "crypto";
 
-import { CompilerOptions, JsxEmit, ModuleKind, ModuleResolutionKind, NewLineKind, ScriptTarget } from "typescript";
-import { JsonDecoder, Result, Ok, ok, err } from "ts.data.json";
+import {
+  CompilerOptions, Diagnostic, JsxEmit, MapLike, ModuleKind, ModuleResolutionKind, ProjectReference,
+  ScriptTarget, WatchDirectoryFlags } from "typescript";
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function decode<A>(decoder: JsonDecoder.Decoder<A>, data: any): A {
-  let result = decoder.decode(data);
-  if (result instanceof Ok) {
-    return result.value;
-  }
-  throw new Error(result.error);
-}
-
-function OptionalDecoder<A>(decoder: JsonDecoder.Decoder<A>, name: string): JsonDecoder.Decoder<undefined | A> {
-  return JsonDecoder.oneOf([JsonDecoder.isNull(undefined), JsonDecoder.isUndefined(undefined), decoder], `${name}?`);
-}
-
-function MapDecoder<A, B>(decoder: JsonDecoder.Decoder<A>, mapper: (data: A) => B, name: string): JsonDecoder.Decoder<B> {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  return new JsonDecoder.Decoder<B>((json: any): Result<B> => {
-    let result = decoder.decode(json);
-    if (result instanceof Ok) {
-      try {
-        return ok<B>(mapper(result.value));
-      } catch (e) {
-        return err<B>(`Error decoding ${name}: ${e}`);
-      }
-    } else {
-      return err<B>(result.error);
-    }
-  });
-}
-
-function PathDecoder(root: string, name: string): JsonDecoder.Decoder<string> {
-  return MapDecoder(JsonDecoder.string, (str: string): string => {
-    return path.resolve(root, str);
-  }, name);
-}
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function ConvertDecoder<A>(cast: (json: any) => A, name: string): JsonDecoder.Decoder<A> {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  return new JsonDecoder.Decoder<A>((json: any): Result<A> => {
-    try {
-      return ok<A>(cast(json));
-    } catch (e) {
-      return err<A>(`Error parsing ${name}: ${e}`);
-    }
-  });
-}
+import { TypeScript } from "./typescript";
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const JsxEmitDecoder = ConvertDecoder<JsxEmit>((json: any) => {
-  if (typeof json == "string") {
-    for (let key of Object.keys(JsxEmit)) {
-      if (key.toLowerCase() == json.toLowerCase()) {
-        return JsxEmit[key];
-      }
-    }
-
-    throw new Error(`'${json}' is not a valid option`);
+export function isFile(name?: string): boolean {
+  if (!name) {
+    return false;
   }
-  throw new Error(`Type of '${json}' was not a string`);
-}, "JsxEmit");
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const ModuleKindDecoder = ConvertDecoder<ModuleKind>((json: any) => {
-  if (typeof json == "string") {
-    for (let key of Object.keys(ModuleKind)) {
-      if (key.toLowerCase() == json.toLowerCase()) {
-        return ModuleKind[key];
-      }
-    }
 
-    throw new Error(`'${json}' is not a valid option`);
+  try {
+    return fs.statSync(name).isFile();
+  } catch (e) {
+    return false;
   }
-  throw new Error(`Type of '${json}' was not a string`);
-}, "ModuleKind");
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const ModuleResolutionKindDecoder = ConvertDecoder<ModuleResolutionKind>((json: any) => {
-  if (typeof json == "string") {
-    let check = json.toLowerCase();
-    if (check == "node") {
-      check = "nodejs";
-    }
-
-    for (let key of Object.keys(ModuleResolutionKind)) {
-      if (key.toLowerCase() == check) {
-        return ModuleResolutionKind[key];
-      }
-    }
+}
 
-    throw new Error(`'${json}' is not a valid option`);
+// Returns -1 for files that don't exist.
+export function getModifiedTime(name: string): number {
+  try {
+    return fs.statSync(name).mtimeMs;
+  } catch (e) {
+    return -1;
   }
-  throw new Error(`Type of '${json}' was not a string`);
-}, "ModuleResolutionKind");
+}
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const NewLineKindDecoder = ConvertDecoder<NewLineKind>((json: any) => {
-  if (typeof json == "string") {
-    for (let key of Object.keys(NewLineKind)) {
-      if (key.toLowerCase() == json.toLowerCase()) {
-        return NewLineKind[key];
-      }
-    }
+export function hashText(text: string): string {
+  return crypto.createHash("md5").update(text).digest("hex");
+}
 
-    throw new Error(`'${json}' is not a valid option`);
+export function* parents(directory: string): Generator<string> {
+  let parent = path.dirname(directory);
+  while (parent != directory) {
+    yield directory;
+    directory = parent;
+    parent = path.dirname(directory);
   }
-  throw new Error(`Type of '${json}' was not a string`);
-}, "NewLineKind");
+  yield directory;
+}
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const ScriptTargetDecoder = ConvertDecoder<ScriptTarget>((json: any) => {
-  if (typeof json == "string") {
-    for (let key of Object.keys(ScriptTarget)) {
-      if (key.toLowerCase() == json.toLowerCase()) {
-        return ScriptTarget[key];
+export function findAbove(directory: string, filenames: string[]): string | null {
+  for (let current of parents(directory)) {
+    for (let filename of filenames) {
+      if (isFile(path.join(current, filename))) {
+        return path.join(current, filename);
       }
     }
-
-    throw new Error(`'${json}' is not a valid option`);
   }
-  throw new Error(`Type of '${json}' was not a string`);
-}, "ScriptTarget");
 
-function CompilerOptionsDecoder(root: string): JsonDecoder.Decoder<CompilerOptions> {
-  return JsonDecoder.object<CompilerOptions>(
-    {
-      allowJs: OptionalDecoder(JsonDecoder.boolean, "allowJs?"),
-      allowSyntheticDefaultImports: OptionalDecoder(JsonDecoder.boolean, "allowSyntheticDefaultImports?"),
-      allowUmdGlobalAccess: OptionalDecoder(JsonDecoder.boolean, "allowUmdGlobalAccess?"),
-      allowUnreachableCode: OptionalDecoder(JsonDecoder.boolean, "allowUnreachableCode?"),
-      allowUnusedLabels: OptionalDecoder(JsonDecoder.boolean, "allowUnusedLabels?"),
-      alwaysStrict: OptionalDecoder(JsonDecoder.boolean, "alwaysStrict?"),
-      baseUrl: OptionalDecoder(JsonDecoder.string, "baseUrl?"),
-      charset: OptionalDecoder(JsonDecoder.string, "charset?"),
-      checkJs: OptionalDecoder(JsonDecoder.boolean, "checkJs?"),
-      declaration: OptionalDecoder(JsonDecoder.boolean, "declaration?"),
-      declarationMap: OptionalDecoder(JsonDecoder.boolean, "declarationMap?"),
-      emitDeclarationOnly: OptionalDecoder(JsonDecoder.boolean, "emitDeclarationOnly?"),
-      declarationDir: OptionalDecoder(PathDecoder(root, "declarationDir"), "declarationDir?"),
-      disableSizeLimit: OptionalDecoder(JsonDecoder.boolean, "disableSizeLimit?"),
-      downlevelIteration: OptionalDecoder(JsonDecoder.boolean, "downlevelIteration?"),
-      emitBOM: OptionalDecoder(JsonDecoder.boolean, "emitBOM?"),
-      emitDecoratorMetadata: OptionalDecoder(JsonDecoder.boolean, "emitDecoratorMetadata?"),
-      experimentalDecorators: OptionalDecoder(JsonDecoder.boolean, "experimentalDecorators?"),
-      forceConsistentCasingInFileNames: OptionalDecoder(JsonDecoder.boolean, "forceConsistentCasingInFileNames?"),
-      importHelpers: OptionalDecoder(JsonDecoder.boolean, "importHelpers?"),
-      inlineSourceMap: OptionalDecoder(JsonDecoder.boolean, "inlineSourceMap?"),
-      inlineSources: OptionalDecoder(JsonDecoder.boolean, "inlineSources?"),
-      isolatedModules: OptionalDecoder(JsonDecoder.boolean, "isolatedModules?"),
-      jsx: OptionalDecoder(JsxEmitDecoder, "JsxEmit?"),
-      keyofStringsOnly: OptionalDecoder(JsonDecoder.boolean, "keyofStringsOnly?"),
-      lib: OptionalDecoder(JsonDecoder.array(JsonDecoder.string, "lib[]"), "lib[]?"),
-      locale: OptionalDecoder(JsonDecoder.string, "locale?"),
-      mapRoot: OptionalDecoder(PathDecoder(root, "mapRoot"), "mapRoot?"),
-      maxNodeModuleJsDepth: OptionalDecoder(JsonDecoder.number, "maxNodeModuleJsDepth?"),
-      module: OptionalDecoder(ModuleKindDecoder, "ModuleKind?"),
-      moduleResolution: OptionalDecoder(ModuleResolutionKindDecoder, "ModuleResolutionKind?"),
-      newLine: OptionalDecoder(NewLineKindDecoder, "NewLine?"),
-      noEmit: OptionalDecoder(JsonDecoder.boolean, "noEmit?"),
-      noEmitHelpers: OptionalDecoder(JsonDecoder.boolean, "noEmitHelpers?"),
-      noEmitOnError: OptionalDecoder(JsonDecoder.boolean, "noEmitOnError?"),
-      noErrorTruncation: OptionalDecoder(JsonDecoder.boolean, "noErrorTruncation?"),
-      noFallthroughCasesInSwitch: OptionalDecoder(JsonDecoder.boolean, "noFallthroughCasesInSwitch?"),
-      noImplicitAny: OptionalDecoder(JsonDecoder.boolean, "noImplicitAny?"),
-      noImplicitReturns: OptionalDecoder(JsonDecoder.boolean, "noImplicitReturns?"),
-      noImplicitThis: OptionalDecoder(JsonDecoder.boolean, "noImplicitThis?"),
-      noStrictGenericChecks: OptionalDecoder(JsonDecoder.boolean, "noStrictGenericChecks?"),
-      noUnusedLocals: OptionalDecoder(JsonDecoder.boolean, "noUnusedLocals?"),
-      noUnusedParameters: OptionalDecoder(JsonDecoder.boolean, "noUnusedParameters?"),
-      noImplicitUseStrict: OptionalDecoder(JsonDecoder.boolean, "noImplicitUseStrict?"),
-      noLib: OptionalDecoder(JsonDecoder.boolean, "noLib?"),
-      noResolve: OptionalDecoder(JsonDecoder.boolean, "noResolve?"),
-      out: OptionalDecoder(PathDecoder(root, "out"), "out?"),
-      outDir: OptionalDecoder(PathDecoder(root, "outDir"), "outDir?"),
-      outFile: OptionalDecoder(PathDecoder(root, "outFile"), "outFile?"),
-      paths: OptionalDecoder(JsonDecoder.dictionary(JsonDecoder.array(JsonDecoder.string, "string"), "string[]"), "Map<string, string[]>?"),
-      preserveConstEnums: OptionalDecoder(JsonDecoder.boolean, "preserveConstEnums?"),
-      preserveSymlinks: OptionalDecoder(JsonDecoder.boolean, "preserveSymlinks?"),
-      project: OptionalDecoder(PathDecoder(root, "project"), "project?"),
-      reactNamespace: OptionalDecoder(JsonDecoder.string, "reactNamespace?"),
-      jsxFactory: OptionalDecoder(JsonDecoder.string, "jsxFactory?"),
-      composite: OptionalDecoder(JsonDecoder.boolean, "composite?"),
-      incremental: OptionalDecoder(JsonDecoder.boolean, "incremental?"),
-      tsBuildInfoFile: OptionalDecoder(PathDecoder(root, "tsBuildInfoFile"), "tsBuildInfoFile?"),
-      removeComments: OptionalDecoder(JsonDecoder.boolean, "removeComments?"),
-      rootDir: OptionalDecoder(PathDecoder(root, "rootDir"), "rootDir?"),
-      rootDirs: OptionalDecoder(JsonDecoder.array(PathDecoder(root, "rootDirs"), "rootDir[]"), "rootDirs[]?"),
-      skipLibCheck: OptionalDecoder(JsonDecoder.boolean, "skipLibCheck?"),
-      skipDefaultLibCheck: OptionalDecoder(JsonDecoder.boolean, "skipDefaultLibCheck?"),
-      sourceMap: OptionalDecoder(JsonDecoder.boolean, "sourceMap?"),
-      sourceRoot: OptionalDecoder(JsonDecoder.string, "sourceRoot?"),
-      strict: OptionalDecoder(JsonDecoder.boolean, "strict?"),
-      strictFunctionTypes: OptionalDecoder(JsonDecoder.boolean, "strictFunctionTypes?"),
-      strictBindCallApply: OptionalDecoder(JsonDecoder.boolean, "strictBindCallApply?"),
-      strictNullChecks: OptionalDecoder(JsonDecoder.boolean, "strictNullChecks?"),
-      strictPropertyInitialization: OptionalDecoder(JsonDecoder.boolean, "strictPropertyInitialization?"),
-      stripInternal: OptionalDecoder(JsonDecoder.boolean, "stripInternal?"),
-      suppressExcessPropertyErrors: OptionalDecoder(JsonDecoder.boolean, "suppressExcessPropertyErrors?"),
-      suppressImplicitAnyIndexErrors: OptionalDecoder(JsonDecoder.boolean, "suppressImplicitAnyIndexErrors?"),
-      target: OptionalDecoder(ScriptTargetDecoder, "ScriptTarget?"),
-      traceResolution: OptionalDecoder(JsonDecoder.boolean, "traceResolution?"),
-      resolveJsonModule: OptionalDecoder(JsonDecoder.boolean, "resolveJsonModule?"),
-      types: OptionalDecoder(JsonDecoder.array(JsonDecoder.string, "types[]"), "types[]?"),
-      /** Paths used to compute primary types search locations */
-      typeRoots: OptionalDecoder(JsonDecoder.array(PathDecoder(root, "typeRoot"), "typeRoots[]"), "typeRoots[]?"),
-      esModuleInterop: OptionalDecoder(JsonDecoder.boolean, "esModuleInterop?"),
-    },
-    "CompilerOptions"
-  );
+  return null;
 }
 
 export interface Config {
   compilerOptions: CompilerOptions;
-  files?: string[];
-  include?: string[];
-  exclude?: string[];
-}
-
-function ConfigDecoder(root: string): JsonDecoder.Decoder<Config> {
-  return JsonDecoder.object<Config>(
-    {
-      compilerOptions: CompilerOptionsDecoder(root),
-      files: OptionalDecoder(JsonDecoder.array(PathDecoder(root, "file"), "string[]"), "files[]?"),
-      include: OptionalDecoder(JsonDecoder.array(PathDecoder(root, "include"), "string[]"), "include[]?"),
-      exclude: OptionalDecoder(JsonDecoder.array(PathDecoder(root, "exclude"), "string[]"), "exclude[]?"),
-    },
-    "Config"
-  );
+  files: string[];
+  projectReferences?: readonly ProjectReference[];
+  // The directories that the include specs find files in and whether they find
+  // them in subdirectories too.
+  wildcardDirectories?: MapLike<WatchDirectoryFlags>;
+  errors: Diagnostic[];
 }
 
-export function decodeConfig(configFile: string): Config {
-  let root = path.dirname(configFile);
-  let config = decode(ConfigDecoder(root), JSON.parse(fs.readFileSync(configFile, { encoding: "utf8" })));
-
-  if (!config.exclude) {
-    config.exclude = [
-      path.join(root, "node_modules"),
-      path.join(root, "bower_components"),
-      path.join(root, "jspm_packages"),
-    ];
-
-    if (config.compilerOptions.outDir) {
-      config.exclude.push(config.compilerOptions.outDir);
-    }
-  }
-
-  return config;
-}
-
-interface PackageInfo {
-  index?: string;
-  types?: string;
-  typings?: string;
-}
-
-function PackageInfoDecoder(root: string): JsonDecoder.Decoder<PackageInfo> {
-  return JsonDecoder.object<PackageInfo>(
-    {
-      index: OptionalDecoder(PathDecoder(root, "index"), "index?"),
-      types: OptionalDecoder(PathDecoder(root, "types"), "types?"),
-      typings: OptionalDecoder(PathDecoder(root, "types"), "typings?"),
-    },
-    "PackageInfo"
-  );
+// The defaults that editors give to projects configured by a jsconfig.json.
+// JavaScript files are only checked if they contain a "// @ts-check" comment
+// unless the config enables checkJs.
+const JSCONFIG_DEFAULTS: CompilerOptions = {
+  allowJs: true,
+  maxNodeModuleJsDepth: 2,
+  allowSyntheticDefaultImports: true,
+  skipLibCheck: true,
+  noEmit: true,
+};
+
+/**
+ * Reads a tsconfig.json the same way that tsc does. This accepts comments and
+ * trailing commas and follows any "extends" chain, resolving paths relative to
+ * the config file that declared them. Problems with the config, such as
+ * unknown compiler options, are returned as diagnostics rather than thrown.
+ * A jsconfig.json is read the same way but with different default options.
+ */
+export function decodeConfig(ts: TypeScript, configFile: string): Config {
+  let defaults = path.basename(configFile) == "jsconfig.json" ? JSCONFIG_DEFAULTS : undefined;
+  let sourceFile = ts.readJsonConfigFile(configFile, ts.sys.readFile);
+  let parsed = ts.parseJsonSourceFileConfigFileContent(sourceFile, ts.sys, path.dirname(configFile), defaults, configFile);
+
+  return {
+    compilerOptions: parsed.options,
+    files: parsed.fileNames,
+    projectReferences: parsed.projectReferences,
+    wildcardDirectories: parsed.wildcardDirectories,
+    errors: ts.getConfigFileParsingDiagnostics(parsed).slice(),
+  };
 }
 
-export function loadPackage(directory: string): PackageInfo | null {
-  let decoder = PackageInfoDecoder(directory);
-  try {
-    return decode(decoder, JSON.parse(fs.readFileSync(path.join(directory, "package.json"), { encoding: "utf8" })));
-  } catch (e) {
-    return null;
-  }
+// The defaults for files that are not part of any project. JavaScript files
+// are only checked if they contain a "// @ts-check" comment.
+const INFERRED_DEFAULTS: CompilerOptions = {
+  allowJs: true,
+  allowSyntheticDefaultImports: true,
+  jsx: JsxEmit.Preserve,
+  maxNodeModuleJsDepth: 2,
+  module: ModuleKind.CommonJS,
+  moduleResolution: ModuleResolutionKind.NodeJs,
+  noEmit: true,
+  skipLibCheck: true,
+  target: ScriptTarget.ES2017,
+};
+
+/**
+ * Builds the config for an inferred project from the compiler options given in
+ * the plugin's options. The project starts with no files.
+ */
+export function decodeInferredConfig(ts: TypeScript, compilerOptions: object, root: string): Config {
+  let converted = ts.convertCompilerOptionsFromJson(compilerOptions, root);
+
+  return {
+    compilerOptions: Object.assign({}, INFERRED_DEFAULTS, converted.options),
+    files: [],
+    errors: converted.errors,
+  };
 }
@@ -0,0 +1,95 @@
+import path from "path";
+
+import { isFile, parents } from "./utils";
+
+/**
+ * The script that is type checked for a file that ESLint lints. Usually this
+ * is just the file but some files contain scripts that are checked as virtual
+ * files that only exist in the project.
+ */
+export interface Script {
+  fileName: string;
+  text: string;
+  virtual: boolean;
+}
+
+// Appended to virtual scripts so that they are checked as modules. Otherwise
+// what one declares would be visible to, and could conflict with, every other.
+const MODULE_MARKER = "\nexport {};\n";
+
+const SCRIPT_PATTERN = /(<script\b[^>]*>)([\s\S]*?)<\/script>/g;
+const LANG_PATTERN = /\blang\s*=\s*["']?(ts|tsx|js|jsx)\b/;
+
+// Replaces everything but line breaks with spaces so positions in the result
+// are the same as in the original text.
+function blank(text: string): string {
+  return text.replace(/[^\r\n]/g, " ");
+}
+
+// A Vue single file component is checked as the content of its script blocks,
+// such as a <script setup> and a normal <script>, with everything else blanked
+// out, so the positions of diagnostics in the scripts are the positions in the
+// component. Vue requires the blocks to use the same language.
+function getComponentScript(filename: string, text: string): Script | undefined {
+  let lang: string | undefined = undefined;
+  let scriptText = "";
+  let end = 0;
+
+  SCRIPT_PATTERN.lastIndex = 0;
+  let match = SCRIPT_PATTERN.exec(text);
+  while (match) {
+    let langMatch = LANG_PATTERN.exec(match[1]);
+    if (!lang && langMatch) {
+      lang = langMatch[1];
+    }
+
+    let start = match.index + match[1].length;
+    scriptText += blank(text.substring(end, start)) + match[2];
+    end = start + match[2].length;
+    match = SCRIPT_PATTERN.exec(text);
+  }
+
+  if (!end) {
+    return undefined;
+  }
+
+  return {
+    fileName: `${filename}.${lang || "js"}`,
+    text: scriptText + blank(text.substring(end)) + MODULE_MARKER,
+    virtual: true,
+  };
+}
+
+/**
+ * Gets the script to check for the file being linted. Processors, such as the
+ * one for Markdown, name the code blocks that they extract as if they were
+ * files inside the file they came from, like "README.md/0.ts". These become
+ * virtual files beside that file, like "README.md.0.ts", so that imports in
+ * the block resolve as they would from the file itself.
+ */
+export function getScript(filename: string, text: string): Script {
+  if (path.extname(filename) == ".vue") {
+    let script = getComponentScript(filename, text);
+    if (script) {
+      return script;
+    }
+  }
+
+  if (!isFile(filename)) {
+    for (let parent of parents(path.dirname(filename))) {
+      if (isFile(parent)) {
+        return {
+          fileName: `${parent}.${path.relative(parent, filename).split(path.sep).join(".")}`,
+          text: text + MODULE_MARKER,
+          virtual: true,
+        };
+      }
+    }
+  }
+
+  return {
+    fileName: filename,
+    text,
+    virtual: false,
+  };
+}
@@ -0,0 +1,46 @@
+import { workerData } from "worker_threads";
+
+import { CLAIMED_BY_WORKER, PrecheckResult, UNCLAIMED, WorkerData } from "./precheck";
+import { getDependencies, getFileDiagnostics, loadProject } from "./project";
+
+// The entry point for the workers started by Precheck. Each loads the project
+// and checks files from the shared list until none are left.
+function precheck(data: WorkerData): void {
+  let next = new Int32Array(data.next);
+  let claims = new Int32Array(data.claims);
+  let signal = new Int32Array(data.signal);
+  let project = loadProject(data.configFile, data.typescriptLocation);
+
+  let index = Atomics.add(next, 0, 1);
+  while (index < data.files.length) {
+    if (Atomics.compareExchange(claims, index, UNCLAIMED, CLAIMED_BY_WORKER + data.id) == UNCLAIMED) {
+      let fileName = data.files[index];
+      let result: PrecheckResult;
+      try {
+        let dependencies = getDependencies(project, fileName);
+        result = {
+          fileName,
+          dependencies: dependencies.map((dependency: string): [string, string] => {
+            return [dependency, project.host.getContentHash(dependency)];
+          }),
+          diagnostics: getFileDiagnostics(project, fileName, dependencies, data.cacheLocation),
+        };
+      } catch (e) {
+        result = {
+          fileName,
+          dependencies: [],
+        };
+      }
+
+      data.port.postMessage(result);
+      Atomics.add(signal, 0, 1);
+      Atomics.notify(signal, 0, 1);
+    }
+
+    index = Atomics.add(next, 0, 1);
+  }
+
+  data.port.close();
+}
+
+precheck(workerData);
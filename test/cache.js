@@ -0,0 +1,49 @@
+const assert = require("assert");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+const { getDependencies, getFileDiagnostics, loadProject } = require("../lib/project");
+
+function writeFiles(directory, files) {
+  for (let [name, text] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(directory, name)), { recursive: true });
+    fs.writeFileSync(path.join(directory, name), text);
+  }
+}
+
+function checkFile(project, filename, cacheLocation) {
+  let dependencies = getDependencies(project, filename);
+  return getFileDiagnostics(project, filename, dependencies, cacheLocation).map((diagnostic) => diagnostic.code);
+}
+
+// A module that imports nothing still depends on the global scripts in the
+// project, changing one must not give the diagnostics cached before.
+function testGlobalScriptChange() {
+  let root = fs.mkdtempSync(path.join(os.tmpdir(), "mossop-typescript-"));
+  let cacheLocation = path.join(root, "cache");
+  writeFiles(root, {
+    "tsconfig.json": JSON.stringify({ compilerOptions: { strict: true, types: [] }, include: ["src"] }),
+    "src/globals.d.ts": "declare const APP_NAME: string;\n",
+    "src/index.ts": "export const n: string = APP_NAME;\n",
+  });
+
+  let filename = path.join(root, "src", "index.ts");
+  let globals = path.join(root, "src", "globals.d.ts");
+  let project = loadProject(path.join(root, "tsconfig.json"));
+
+  try {
+    assert.deepStrictEqual(checkFile(project, filename, cacheLocation), []);
+
+    project.host.setScriptContent(globals, "declare const APP_NAME: number;\n");
+    assert.deepStrictEqual(checkFile(project, filename, cacheLocation), [2322]);
+
+    project.host.setScriptContent(globals, "declare const APP_NAME: string;\n");
+    assert.deepStrictEqual(checkFile(project, filename, cacheLocation), []);
+  } finally {
+    (fs.rmSync || fs.rmdirSync)(root, { recursive: true });
+  }
+}
+
+testGlobalScriptChange();
+console.log("cache tests passed");